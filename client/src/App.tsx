@@ -3,6 +3,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { useUser } from "@/hooks/use-user";
+import { PresenceProvider } from "@/hooks/use-presence";
 import { Loader2 } from "lucide-react";
 import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
@@ -38,43 +39,46 @@ function Router() {
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <Switch>
-        <Route path="/" component={() => {
-          if (user.role === "business") {
-            return <BusinessDashboard />;
-          } else if (user.role === "employee") {
-            return <EmployeeDashboard />;
-          } else {
-            return <CustomerDashboard />;
-          }
-        }} />
-        <Route path="/messages">
-          {() => {
-            switch (user.role) {
-              case "business":
-                return <BusinessMessages />;
-              case "employee":
-                return <EmployeeMessages />;
-              case "customer":
-                return <CustomerMessages />;
-              default:
-                return <NotFound />;
-            }
-          }}
-        </Route>
-        <Route path="/analytics">
-          {() => {
+    <PresenceProvider>
+      <div className="min-h-screen bg-background">
+        <Switch>
+          <Route path="/" component={() => {
             if (user.role === "business") {
-              return <BusinessAnalytics />;
+              return <BusinessDashboard />;
+            } else if (user.role === "employee") {
+              return <EmployeeDashboard />;
+            } else {
+              return <CustomerDashboard />;
             }
-            return <NotFound />;
-          }}
-        </Route>
-        <Route path="/business/profile" component={BusinessProfileSetup} />
-        <Route component={NotFound} />
-      </Switch>
-    </div>
+          }} />
+          <Route path="/messages">
+            {() => {
+              switch (user.role) {
+                case "business":
+                  return <BusinessMessages />;
+                case "employee":
+                  return <EmployeeMessages />;
+                case "customer":
+                  return <CustomerMessages />;
+                default:
+                  return <NotFound />;
+              }
+            }}
+          </Route>
+          <Route path="/analytics">
+            {() => {
+              // Employees need a supervisor or admin role, which the API enforces
+              if (user.role === "business" || user.role === "employee") {
+                return <BusinessAnalytics />;
+              }
+              return <NotFound />;
+            }}
+          </Route>
+          <Route path="/business/profile" component={BusinessProfileSetup} />
+          <Route component={NotFound} />
+        </Switch>
+      </div>
+    </PresenceProvider>
   );
 }
 
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Monitor } from "lucide-react";
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+}
+
+export default function ActiveSessions() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [] } = useQuery<ActiveSession[]>({
+    queryKey: ['/api/sessions'],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const signOutOthers = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/sessions/sign-out-others", {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(await res.text() || "Failed to sign out other sessions");
+      }
+      return res.json();
+    },
+    onSuccess: (data: { signedOut: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({
+        title: "Success",
+        description: `Signed out of ${data.signedOut} other session${data.signedOut === 1 ? '' : 's'}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-2">
+          <Monitor className="h-4 w-4" />
+          Sessions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            Devices currently signed in to your account
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-3">
+          {sessions.map((session) => (
+            <li key={session.id} className="rounded-md border p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate" title={session.userAgent ?? undefined}>
+                  {session.userAgent || "Unknown device"}
+                </span>
+                {session.current && <Badge variant="secondary">This device</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {session.ipAddress && `${session.ipAddress} · `}
+                Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                {' · '}Last active {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+              </p>
+            </li>
+          ))}
+        </ul>
+        <Button
+          variant="destructive"
+          onClick={() => signOutOthers.mutate()}
+          disabled={signOutOthers.isPending || otherSessions.length === 0}
+        >
+          Sign out all other sessions
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,638 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2, X } from "lucide-react";
+import { TEMPLATE_PLACEHOLDERS } from "./reply-template-manager";
+import type { AutomationAction, AutomationCondition } from "@db/schema";
+
+interface AutomationRule {
+  id: number;
+  name: string;
+  trigger: string;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  position: number;
+  is_active: boolean;
+}
+
+interface RuleForm {
+  name: string;
+  trigger: string;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  isActive: boolean;
+}
+
+interface Employee {
+  employee: {
+    id: number;
+    username: string;
+  };
+  connection: {
+    isActive: boolean;
+  };
+}
+
+const TRIGGERS = [
+  { value: "ticket_created", label: "Ticket created" },
+  { value: "message_received", label: "Customer message received" },
+  { value: "status_changed", label: "Status changed" },
+  { value: "priority_changed", label: "Priority changed" },
+];
+
+const CONDITION_FIELDS: { value: AutomationCondition['field']; label: string }[] = [
+  { value: "category", label: "Category" },
+  { value: "priority", label: "Priority" },
+  { value: "escalationLevel", label: "Escalation level" },
+  { value: "customer", label: "Customer username" },
+  { value: "messageContent", label: "Message content" },
+];
+
+const OPERATORS: { value: AutomationCondition['operator']; label: string }[] = [
+  { value: "equals", label: "is" },
+  { value: "not_equals", label: "is not" },
+  { value: "contains", label: "contains" },
+];
+
+// Fields with a fixed set of values get a dropdown instead of free text
+const FIELD_VALUES: Partial<Record<AutomationCondition['field'], string[]>> = {
+  category: ["technical", "billing", "feature_request", "general_inquiry", "bug_report"],
+  priority: ["low", "medium", "high", "urgent"],
+  escalationLevel: ["none", "low", "medium", "high"],
+};
+
+const ACTION_TYPES: { value: AutomationAction['type']; label: string }[] = [
+  { value: "assign", label: "Assign" },
+  { value: "set_priority", label: "Set priority" },
+  { value: "add_note", label: "Add internal note" },
+  { value: "send_reply", label: "Send reply" },
+  { value: "escalate", label: "Escalate" },
+];
+
+// "routing" stands in for an empty assignee, which Select can't represent
+const ROUTING = "routing";
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  trigger: "ticket_created",
+  conditions: [],
+  actions: [{ type: "add_note", content: "" }],
+  isActive: true,
+};
+
+const triggerLabel = (trigger: string) =>
+  TRIGGERS.find((option) => option.value === trigger)?.label ?? trigger;
+
+function newAction(type: AutomationAction['type']): AutomationAction {
+  switch (type) {
+    case "assign": return { type, assigneeId: null };
+    case "set_priority": return { type, priority: "high" };
+    case "add_note":
+    case "send_reply": return { type, content: "" };
+    case "escalate": return { type, reason: "" };
+  }
+}
+
+function describeAction(action: AutomationAction, employees: Employee[]) {
+  switch (action.type) {
+    case "assign": {
+      const assignee = employees.find(({ employee }) => employee.id === action.assigneeId);
+      return action.assigneeId ? `assign to ${assignee?.employee.username ?? "employee"}` : "assign by routing";
+    }
+    case "set_priority": return `set priority ${action.priority}`;
+    case "add_note": return "add note";
+    case "send_reply": return "send reply";
+    case "escalate": return "escalate";
+  }
+}
+
+export default function AutomationRules() {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [] } = useQuery<AutomationRule[]>({
+    queryKey: ['/api/automations'],
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ['/api/businesses/employees'],
+  });
+
+  const activeEmployees = employees.filter(({ connection }) => connection.isActive);
+
+  const showError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: (error as Error).message,
+    });
+  };
+
+  const saveRule = useMutation({
+    mutationFn: async (data: RuleForm) => {
+      const res = await fetch(editingId ? `/api/automations/${editingId}` : "/api/automations", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save automation rule");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/automations'] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Automation rule saved successfully",
+      });
+    },
+    onError: showError,
+  });
+
+  const toggleRule = useMutation({
+    mutationFn: async (rule: AutomationRule) => {
+      const res = await fetch(`/api/automations/${rule.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...rule, isActive: !rule.is_active }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update automation rule");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/automations'] });
+    },
+    onError: showError,
+  });
+
+  const reorderRules = useMutation({
+    mutationFn: async (ruleIds: number[]) => {
+      const res = await fetch("/api/automations/order", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ruleIds }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to reorder automation rules");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/automations'] });
+    },
+    onError: showError,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: number) => {
+      const res = await fetch(`/api/automations/${ruleId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to delete automation rule");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/automations'] });
+      toast({
+        title: "Success",
+        description: "Automation rule deleted successfully",
+      });
+    },
+    onError: showError,
+  });
+
+  const openDialog = (rule?: AutomationRule) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule
+      ? {
+          name: rule.name,
+          trigger: rule.trigger,
+          conditions: rule.conditions,
+          actions: rule.actions,
+          isActive: rule.is_active,
+        }
+      : EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const ruleIds = rules.map((rule) => rule.id);
+    [ruleIds[index], ruleIds[index + offset]] = [ruleIds[index + offset], ruleIds[index]];
+    reorderRules.mutate(ruleIds);
+  };
+
+  const updateCondition = (index: number, changes: Partial<AutomationCondition>) => {
+    setForm((current) => ({
+      ...current,
+      conditions: current.conditions.map((condition, i) => {
+        if (i !== index) return condition;
+        const updated = { ...condition, ...changes };
+        // Switching field resets the value, since the old one rarely fits the new field
+        return changes.field ? { ...updated, value: FIELD_VALUES[changes.field]?.[0] ?? "" } : updated;
+      }),
+    }));
+  };
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setForm((current) => ({
+      ...current,
+      actions: current.actions.map((existing, i) => i === index ? action : existing),
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Active rules run from top to bottom whenever their trigger happens on one of your tickets.
+        </p>
+        <Button className="flex items-center gap-2" onClick={() => openDialog()}>
+          <Plus className="h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead>Then</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule, index) => (
+              <TableRow key={rule.id}>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveRule(index, -1)}
+                      disabled={index === 0 || reorderRules.isPending}
+                      aria-label="Move rule up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveRule(index, 1)}
+                      disabled={index === rules.length - 1 || reorderRules.isPending}
+                      aria-label="Move rule down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell>{rule.name}</TableCell>
+                <TableCell>
+                  {triggerLabel(rule.trigger)}
+                  {rule.conditions.length > 0 && (
+                    <span className="text-muted-foreground">
+                      {" "}· {rule.conditions.length} condition{rule.conditions.length === 1 ? "" : "s"}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>{rule.actions.map((action) => describeAction(action, employees)).join(", ")}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={() => toggleRule.mutate(rule)}
+                    disabled={toggleRule.isPending}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm('Delete this automation rule?')) {
+                          deleteRule.mutate(rule.id);
+                        }
+                      }}
+                      disabled={deleteRule.isPending}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {rules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No automation rules yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Automation Rule" : "New Automation Rule"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveRule.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Escalate urgent billing"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>When</Label>
+                <Select value={form.trigger} onValueChange={(trigger) => setForm({ ...form, trigger })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRIGGERS.map((trigger) => (
+                      <SelectItem key={trigger.value} value={trigger.value}>
+                        {trigger.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Only if all of these match</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({
+                    ...form,
+                    conditions: [...form.conditions, { field: "category", operator: "equals", value: "technical" }],
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Condition
+                </Button>
+              </div>
+              {form.conditions.length === 0 && (
+                <p className="text-sm text-muted-foreground">Runs on every ticket</p>
+              )}
+              {form.conditions.map((condition, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={condition.field}
+                    onValueChange={(field) => updateCondition(index, { field: field as AutomationCondition['field'] })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONDITION_FIELDS.map((field) => (
+                        <SelectItem key={field.value} value={field.value}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(operator) => updateCondition(index, { operator: operator as AutomationCondition['operator'] })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPERATORS.map((operator) => (
+                        <SelectItem key={operator.value} value={operator.value}>
+                          {operator.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {FIELD_VALUES[condition.field] && condition.operator !== "contains" ? (
+                    <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+                      <SelectTrigger className="flex-1 capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FIELD_VALUES[condition.field]!.map((value) => (
+                          <SelectItem key={value} value={value} className="capitalize">
+                            {value.replace(/_/g, ' ')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      className="flex-1"
+                      value={condition.value}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm({ ...form, conditions: form.conditions.filter((_, i) => i !== index) })}
+                    aria-label="Remove condition"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Then, in order</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ ...form, actions: [...form.actions, newAction("add_note")] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Action
+                </Button>
+              </div>
+              {form.actions.map((action, index) => (
+                <div key={index} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={action.type}
+                      onValueChange={(type) => updateAction(index, newAction(type as AutomationAction['type']))}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACTION_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {action.type === "assign" && (
+                      <Select
+                        value={action.assigneeId ? String(action.assigneeId) : ROUTING}
+                        onValueChange={(value) => updateAction(index, {
+                          type: "assign",
+                          assigneeId: value === ROUTING ? null : Number(value),
+                        })}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ROUTING}>Use routing settings</SelectItem>
+                          {activeEmployees.map(({ employee }) => (
+                            <SelectItem key={employee.id} value={String(employee.id)}>
+                              {employee.username}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {action.type === "set_priority" && (
+                      <Select
+                        value={action.priority}
+                        onValueChange={(priority) => updateAction(index, {
+                          type: "set_priority",
+                          priority: priority as typeof action.priority,
+                        })}
+                      >
+                        <SelectTrigger className="flex-1 capitalize">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FIELD_VALUES.priority!.map((priority) => (
+                            <SelectItem key={priority} value={priority} className="capitalize">
+                              {priority}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {action.type === "escalate" && (
+                      <Input
+                        className="flex-1"
+                        value={action.reason}
+                        onChange={(e) => updateAction(index, { type: "escalate", reason: e.target.value })}
+                        placeholder="Reason"
+                      />
+                    )}
+
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => setForm({ ...form, actions: form.actions.filter((_, i) => i !== index) })}
+                      disabled={form.actions.length === 1}
+                      aria-label="Remove action"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {(action.type === "add_note" || action.type === "send_reply") && (
+                    <>
+                      <Textarea
+                        rows={2}
+                        value={action.content}
+                        onChange={(e) => updateAction(index, { type: action.type, content: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Placeholders: {TEMPLATE_PLACEHOLDERS.join(", ")}
+                      </p>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="rule-active"
+                checked={form.isActive}
+                onCheckedChange={(isActive) => setForm({ ...form, isActive })}
+              />
+              <Label htmlFor="rule-active">Active</Label>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={saveRule.isPending}>
+              {saveRule.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
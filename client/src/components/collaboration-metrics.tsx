@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import {
   Card,
@@ -18,12 +19,24 @@ import {
   LineChart,
   Line,
 } from "recharts";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 
+const CATEGORIES = ['technical', 'billing', 'feature_request', 'general_inquiry', 'bug_report'];
+
 interface TicketMetrics {
   totalTickets: number;
   resolvedTickets: number;
   averageResolutionTime: number;
+  averageFirstResponseTime: number;
   ticketsByCategory: {
     category: string;
     count: number;
@@ -52,166 +65,216 @@ interface EmployeeMetrics {
   ticketsPerEmployee: {
     employee: string;
     tickets: number;
+    averageResponseTime: number;
   }[];
   averageResponseTime: number;
   collaborationScore: number;
 }
 
 export default function CollaborationMetrics() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [category, setCategory] = useState("all");
+
+  // Employees viewing a business's analytics name the business in the page URL
+  const businessProfileId = new URLSearchParams(window.location.search).get('businessProfileId');
+
+  const params = new URLSearchParams();
+  if (businessProfileId) params.set("businessProfileId", businessProfileId);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  if (category !== "all") params.set("category", category);
+  const filterQuery = params.toString() ? `?${params}` : "";
+
   const { data: ticketMetrics, isLoading: isLoadingTickets } = useQuery<TicketMetrics>({
-    queryKey: ['/api/analytics/tickets'],
+    queryKey: [`/api/analytics/tickets${filterQuery}`],
   });
 
   const { data: feedbackMetrics, isLoading: isLoadingFeedback } = useQuery<FeedbackMetrics>({
-    queryKey: ['/api/analytics/feedback'],
+    queryKey: [`/api/analytics/feedback${filterQuery}`],
   });
 
   const { data: employeeMetrics, isLoading: isLoadingEmployees } = useQuery<EmployeeMetrics>({
-    queryKey: ['/api/analytics/employees'],
+    queryKey: [`/api/analytics/employees${filterQuery}`],
   });
 
+  const filters = (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="analytics-from">From</Label>
+        <Input id="analytics-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="analytics-to">To</Label>
+        <Input id="analytics-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label>Category</Label>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-[180px] capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {CATEGORIES.map((value) => (
+              <SelectItem key={value} value={value} className="capitalize">
+                {value.replace(/_/g, ' ')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
   if (isLoadingTickets || isLoadingFeedback || isLoadingEmployees) {
     return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      <div className="space-y-4">
+        {filters}
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-      {/* Ticket Resolution Overview */}
-      <Card className="col-span-full">
-        <CardHeader>
-          <CardTitle>Ticket Resolution Overview</CardTitle>
-          <CardDescription>
-            Track ticket resolution metrics across all organizations
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-[300px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={ticketMetrics?.ticketsByCategory}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="category" />
-                <YAxis />
-                <Tooltip />
-                <Legend />
-                <Bar dataKey="count" fill="hsl(var(--primary))" name="Tickets" />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Customer Satisfaction */}
-      <Card className="col-span-full md:col-span-2">
-        <CardHeader>
-          <CardTitle>Customer Satisfaction Trends</CardTitle>
-          <CardDescription>
-            Average ratings over time across all organizations
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-[300px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={feedbackMetrics?.feedbackOverTime}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" />
-                <YAxis domain={[0, 5]} />
-                <Tooltip />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="rating"
-                  stroke="hsl(var(--primary))"
-                  name="Average Rating"
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Key Metrics Cards */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Resolution Rate</CardTitle>
-          <CardDescription>Overall ticket resolution performance</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">
-            {ticketMetrics ? 
-              `${((ticketMetrics.resolvedTickets / ticketMetrics.totalTickets) * 100).toFixed(1)}%` 
-              : '0%'}
-          </div>
-          <p className="text-xs text-muted-foreground">
-            {ticketMetrics?.resolvedTickets} out of {ticketMetrics?.totalTickets} tickets resolved
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Average Response Time</CardTitle>
-          <CardDescription>Time to first response</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">
-            {employeeMetrics?.averageResponseTime 
-              ? `${Math.round(employeeMetrics.averageResponseTime)}min` 
-              : 'N/A'}
-          </div>
-          <p className="text-xs text-muted-foreground">
-            Average across all organizations
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Collaboration Score</CardTitle>
-          <CardDescription>Cross-organization effectiveness</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">
-            {employeeMetrics?.collaborationScore
-              ? `${(employeeMetrics.collaborationScore * 100).toFixed(1)}%`
-              : 'N/A'}
-          </div>
-          <p className="text-xs text-muted-foreground">
-            Based on response times and resolution rates
-          </p>
-        </CardContent>
-      </Card>
-
-      {/* Employee Performance */}
-      <Card className="col-span-full">
-        <CardHeader>
-          <CardTitle>Employee Performance</CardTitle>
-          <CardDescription>
-            Ticket resolution distribution across employees
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-[300px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={employeeMetrics?.ticketsPerEmployee}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="employee" />
-                <YAxis />
-                <Tooltip />
-                <Legend />
-                <Bar
-                  dataKey="tickets"
-                  fill="hsl(var(--primary))"
-                  name="Resolved Tickets"
-                />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      {filters}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {/* Ticket Resolution Overview */}
+        <Card className="col-span-full">
+          <CardHeader>
+            <CardTitle>Ticket Resolution Overview</CardTitle>
+            <CardDescription>
+              Tickets by category for the selected period
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={ticketMetrics?.ticketsByCategory}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="category" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="count" fill="hsl(var(--primary))" name="Tickets" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Customer Satisfaction */}
+        <Card className="col-span-full md:col-span-2">
+          <CardHeader>
+            <CardTitle>Customer Satisfaction Trends</CardTitle>
+            <CardDescription>
+              Average daily rating from customer feedback
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={feedbackMetrics?.feedbackOverTime}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis domain={[0, 5]} />
+                  <Tooltip />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="rating"
+                    stroke="hsl(var(--primary))"
+                    name="Average Rating"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Key Metrics Cards */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Resolution Rate</CardTitle>
+            <CardDescription>Overall ticket resolution performance</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {ticketMetrics?.totalTickets ? 
+                `${((ticketMetrics.resolvedTickets / ticketMetrics.totalTickets) * 100).toFixed(1)}%` 
+                : '0%'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {ticketMetrics?.resolvedTickets} out of {ticketMetrics?.totalTickets} tickets resolved
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Average Response Time</CardTitle>
+            <CardDescription>Time to first response</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {employeeMetrics?.averageResponseTime 
+                ? `${Math.round(employeeMetrics.averageResponseTime)}min` 
+                : 'N/A'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Average across all tickets in range
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Collaboration Score</CardTitle>
+            <CardDescription>Cross-organization effectiveness</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {employeeMetrics?.collaborationScore
+                ? `${(employeeMetrics.collaborationScore * 100).toFixed(1)}%`
+                : 'N/A'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Based on response times and resolution rates
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Employee Performance */}
+        <Card className="col-span-full">
+          <CardHeader>
+            <CardTitle>Employee Performance</CardTitle>
+            <CardDescription>
+              Ticket resolution distribution across employees
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={employeeMetrics?.ticketsPerEmployee}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="employee" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar
+                    dataKey="tickets"
+                    fill="hsl(var(--primary))"
+                    name="Resolved Tickets"
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
@@ -25,8 +25,24 @@ import {
   CommandInput,
   CommandItem,
 } from "@/components/ui/command";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { UserPlus, Search, Pause, Play, UserMinus } from "lucide-react";
+import { UserPlus, Search, Pause, Play, UserMinus, Tags } from "lucide-react";
 
 interface EmployeeData {
   employee: {
@@ -36,10 +52,28 @@ interface EmployeeData {
   };
   connection: {
     isActive: boolean;
+    role: 'agent' | 'supervisor' | 'admin';
+    skills: string[];
     createdAt: string;
   };
 }
 
+// Skills map onto ticket categories so matching tickets can be routed to the employee
+const SKILLS = [
+  { value: "technical", label: "Technical" },
+  { value: "billing", label: "Billing" },
+  { value: "feature_request", label: "Feature Requests" },
+  { value: "general_inquiry", label: "General Inquiries" },
+  { value: "bug_report", label: "Bug Reports" },
+];
+
+// Supervisors can also reassign, escalate and view analytics; admins can also manage settings and employees
+const ROLES = [
+  { value: "agent", label: "Agent" },
+  { value: "supervisor", label: "Supervisor" },
+  { value: "admin", label: "Admin" },
+];
+
 interface AvailableEmployee {
   id: number;
   username: string;
@@ -124,6 +158,64 @@ export default function EmployeeManagement() {
     },
   });
 
+  // Update employee skills mutation
+  const updateSkills = useMutation({
+    mutationFn: async ({ employeeId, skills }: { employeeId: number; skills: string[] }) => {
+      const res = await fetch(`/api/businesses/employees/${employeeId}/skills`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ skills }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update skills");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/businesses/employees'] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  // Update employee role mutation
+  const updateRole = useMutation({
+    mutationFn: async ({ employeeId, role }: { employeeId: number; role: string }) => {
+      const res = await fetch(`/api/businesses/employees/${employeeId}/role`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update role");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/businesses/employees'] });
+      toast({
+        title: "Success",
+        description: "Employee role updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
   // Remove employee mutation
   const removeEmployee = useMutation({
     mutationFn: async (employeeId: number) => {
@@ -234,6 +326,8 @@ export default function EmployeeManagement() {
             <TableRow>
               <TableHead>Username</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Skills</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -252,6 +346,61 @@ export default function EmployeeManagement() {
                     {emp.connection.isActive ? "Active" : "Paused"}
                   </span>
                 </TableCell>
+                <TableCell>
+                  <Select
+                    value={emp.connection.role}
+                    onValueChange={(role) => updateRole.mutate({ employeeId: emp.employee.id, role })}
+                    disabled={updateRole.isPending}
+                  >
+                    <SelectTrigger className="w-[130px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>
+                          {role.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {(emp.connection.skills || []).map((skill) => (
+                      <Badge key={skill} variant="outline" className="text-xs">
+                        {SKILLS.find((s) => s.value === skill)?.label ?? skill}
+                      </Badge>
+                    ))}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Edit skills" disabled={updateSkills.isPending}>
+                          <Tags className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuLabel>Routes tickets about</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        {SKILLS.map((skill) => {
+                          const skills = emp.connection.skills || [];
+                          return (
+                            <DropdownMenuCheckboxItem
+                              key={skill.value}
+                              checked={skills.includes(skill.value)}
+                              onCheckedChange={(checked) => updateSkills.mutate({
+                                employeeId: emp.employee.id,
+                                skills: checked
+                                  ? [...skills, skill.value]
+                                  : skills.filter((s) => s !== skill.value),
+                              })}
+                            >
+                              {skill.label}
+                            </DropdownMenuCheckboxItem>
+                          );
+                        })}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
                     <Button
@@ -288,7 +437,7 @@ export default function EmployeeManagement() {
             ))}
             {filteredEmployees.length === 0 && (
               <TableRow>
-                <TableCell colSpan={3} className="text-center text-muted-foreground">
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
                   {existingEmployeeSearch
                     ? `No employees found matching "${existingEmployeeSearch}"`
                     : "No employees yet"}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { RotateCcw } from "lucide-react";
+
+type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+interface Job {
+  id: number;
+  type: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: string | null;
+  created_at: string;
+}
+
+interface JobQueue {
+  counts: Record<JobStatus, number>;
+  jobs: Job[];
+}
+
+const STATUSES: { value: JobStatus; label: string }[] = [
+  { value: "pending", label: "Waiting" },
+  { value: "running", label: "Running" },
+  { value: "completed", label: "Done" },
+  { value: "dead", label: "Failed" },
+];
+
+// Failed jobs are shown by default, since they're the ones that need attention
+export default function JobQueueStatus() {
+  const [status, setStatus] = useState<JobStatus>("dead");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<JobQueue>({
+    queryKey: [`/api/jobs?status=${status}`],
+  });
+
+  const retryJob = useMutation({
+    mutationFn: async (jobId: number) => {
+      const res = await fetch(`/api/jobs/${jobId}/retry`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to retry job");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs?status=${status}`] });
+      toast({
+        title: "Success",
+        description: "Job queued to run again",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {STATUSES.map((option) => (
+          <Button
+            key={option.value}
+            variant={status === option.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatus(option.value)}
+            className="flex items-center gap-2"
+          >
+            {option.label}
+            <Badge variant="secondary">{data?.counts[option.value] ?? 0}</Badge>
+          </Button>
+        ))}
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Job</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>{status === "pending" ? "Runs at" : "Created"}</TableHead>
+              <TableHead>Last error</TableHead>
+              {status === "dead" && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => (
+              <TableRow key={job.id}>
+                <TableCell className="font-mono text-xs">#{job.id} {job.type}</TableCell>
+                <TableCell>{job.attempts}/{job.max_attempts}</TableCell>
+                <TableCell>
+                  {new Date(status === "pending" ? job.run_at : job.created_at).toLocaleString()}
+                </TableCell>
+                <TableCell className="max-w-xs truncate text-muted-foreground" title={job.last_error ?? undefined}>
+                  {job.last_error ?? "—"}
+                </TableCell>
+                {status === "dead" && (
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => retryJob.mutate(job.id)}
+                      disabled={retryJob.isPending}
+                      aria-label="Retry job"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {jobs.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={status === "dead" ? 5 : 4} className="text-center text-muted-foreground">
+                  No jobs here
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Trash2 } from "lucide-react";
+import { TEMPLATE_PLACEHOLDERS } from "./reply-template-manager";
+
+export interface Macro {
+  id: number;
+  title: string;
+  reply_content: string | null;
+  status: string | null;
+  priority: string | null;
+  category: string | null;
+  note: string | null;
+}
+
+export interface MacroList {
+  canManage: boolean;
+  macros: Macro[];
+}
+
+// Business owners act on their own business; employees name the one they mean
+export const macrosUrl = (businessProfileId?: number) =>
+  businessProfileId ? `/api/macros?businessProfileId=${businessProfileId}` : '/api/macros';
+
+// "unchanged" stands in for an empty choice, which Select can't represent
+const UNCHANGED = "unchanged";
+
+const FIELD_OPTIONS = {
+  status: ["open", "in_progress", "resolved"],
+  priority: ["low", "medium", "high", "urgent"],
+  category: ["technical", "billing", "feature_request", "general_inquiry", "bug_report"],
+} as const;
+
+const emptyForm = {
+  title: "",
+  replyContent: "",
+  status: UNCHANGED,
+  priority: UNCHANGED,
+  category: UNCHANGED,
+  note: "",
+};
+
+export const formatFieldValue = (value: string) => value.replace(/_/g, ' ');
+
+interface MacroManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessProfileId?: number;
+  macros: Macro[];
+}
+
+export default function MacroManager({ open, onOpenChange, businessProfileId, macros }: MacroManagerProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const saveMacro = useMutation({
+    mutationFn: async () => {
+      const choice = (value: string) => value === UNCHANGED ? null : value;
+      const res = await fetch(editingId ? `/api/macros/${editingId}` : "/api/macros", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          status: choice(form.status),
+          priority: choice(form.priority),
+          category: choice(form.category),
+          businessProfileId,
+        }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save macro");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [macrosUrl(businessProfileId)] });
+      toast({
+        title: "Success",
+        description: editingId ? "Macro updated" : "Macro created",
+      });
+      resetForm();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const deleteMacro = useMutation({
+    mutationFn: async (macroId: number) => {
+      const res = await fetch(`/api/macros/${macroId}${businessProfileId ? `?businessProfileId=${businessProfileId}` : ''}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to delete macro");
+      }
+      return res.json();
+    },
+    onSuccess: (_, macroId) => {
+      queryClient.invalidateQueries({ queryKey: [macrosUrl(businessProfileId)] });
+      if (macroId === editingId) resetForm();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const startEditing = (macro: Macro) => {
+    setEditingId(macro.id);
+    setForm({
+      title: macro.title,
+      replyContent: macro.reply_content ?? "",
+      status: macro.status ?? UNCHANGED,
+      priority: macro.priority ?? UNCHANGED,
+      category: macro.category ?? UNCHANGED,
+      note: macro.note ?? "",
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) resetForm();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Macros</DialogTitle>
+          <DialogDescription>
+            Each macro can reply to the customer, update the ticket and leave an internal note in one step.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <ScrollArea className="h-[440px] pr-2">
+            <div className="space-y-2">
+              {macros.length === 0 && (
+                <p className="text-sm text-muted-foreground">No macros yet</p>
+              )}
+              {macros.map((macro) => (
+                <div key={macro.id} className="rounded-md border p-2 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium text-sm truncate">{macro.title}</p>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startEditing(macro)} aria-label="Edit macro">
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => deleteMacro.mutate(macro.id)}
+                        disabled={deleteMacro.isPending}
+                        aria-label="Delete macro"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {macro.reply_content && <Badge variant="outline">reply</Badge>}
+                    {(['status', 'priority', 'category'] as const).map((field) => macro[field] && (
+                      <Badge key={field} variant="secondary">{field}: {formatFieldValue(macro[field]!)}</Badge>
+                    ))}
+                    {macro.note && <Badge variant="outline">note</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (form.title.trim()) saveMacro.mutate();
+            }}
+            className="space-y-3"
+          >
+            <div className="space-y-1">
+              <Label htmlFor="macro-title">Title</Label>
+              <Input
+                id="macro-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="macro-reply">Reply to customer</Label>
+              <Textarea
+                id="macro-reply"
+                rows={3}
+                value={form.replyContent}
+                onChange={(e) => setForm({ ...form, replyContent: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Placeholders: {TEMPLATE_PLACEHOLDERS.join(", ")}
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(FIELD_OPTIONS) as (keyof typeof FIELD_OPTIONS)[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label className="capitalize">{field}</Label>
+                  <Select
+                    value={form[field]}
+                    onValueChange={(value) => setForm({ ...form, [field]: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCHANGED}>Unchanged</SelectItem>
+                      {FIELD_OPTIONS[field].map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">
+                          {formatFieldValue(option)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="macro-note">Internal note</Label>
+              <Textarea
+                id="macro-note"
+                rows={2}
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={!form.title.trim() || saveMacro.isPending}>
+                {editingId ? "Save changes" : "Add macro"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2, Paperclip, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface AttachmentInfo {
+  id: number;
+  file_name: string;
+  mime_type: string;
+  size: number;
+}
+
+// Matches the types the server accepts in server/attachments.ts
+export const ATTACHMENT_ACCEPT = "image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/csv,application/zip";
+
+export async function uploadAttachment(file: File): Promise<AttachmentInfo> {
+  const res = await fetch(`/api/attachments?name=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || `Failed to upload ${file.name}`);
+  }
+  return res.json();
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const downloadUrl = (attachment: AttachmentInfo) => `/api/attachments/${attachment.id}/download`;
+
+// Image previews and download links shown inside a chat bubble or ticket
+export function AttachmentList({ attachments, className }: { attachments: AttachmentInfo[]; className?: string }) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={cn("mt-2 space-y-2", className)}>
+      {attachments.map((attachment) =>
+        attachment.mime_type.startsWith("image/") ? (
+          <a key={attachment.id} href={downloadUrl(attachment)} target="_blank" rel="noreferrer" className="block">
+            <img
+              src={downloadUrl(attachment)}
+              alt={attachment.file_name}
+              className="max-h-48 max-w-full rounded-md border object-contain"
+              loading="lazy"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={downloadUrl(attachment)}
+            download={attachment.file_name}
+            className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm underline-offset-2 hover:underline"
+          >
+            <FileText className="h-4 w-4 shrink-0" />
+            <span className="truncate">{attachment.file_name}</span>
+            <span className="shrink-0 text-xs opacity-70">{formatSize(attachment.size)}</span>
+          </a>
+        )
+      )}
+    </div>
+  );
+}
+
+// Files uploaded together with the ticket itself, as opposed to in its chat
+export function TicketAttachments({ ticketId }: { ticketId: number }) {
+  const { data: attachments = [] } = useQuery<(AttachmentInfo & { message_id: number | null })[]>({
+    queryKey: [`/api/tickets/${ticketId}/attachments`],
+  });
+
+  const ticketFiles = attachments.filter((attachment) => attachment.message_id === null);
+  if (ticketFiles.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">Attachments</h3>
+      <AttachmentList attachments={ticketFiles} className="mt-0" />
+    </div>
+  );
+}
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+  uploading?: boolean;
+}
+
+// Paperclip button that adds chosen files to the pending list
+export function AttachmentPicker({ files, onChange, disabled, uploading }: AttachmentPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          onChange([...files, ...Array.from(e.target.files || [])]);
+          e.target.value = "";
+        }}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title="Attach files"
+      >
+        {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+      </Button>
+    </>
+  );
+}
+
+// Files chosen but not yet sent, each removable
+export function PendingAttachments({ files, onChange }: { files: File[]; onChange: (files: File[]) => void }) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {files.map((file, index) => (
+        <span key={`${file.name}-${index}`} className="flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs">
+          <Paperclip className="h-3 w-3" />
+          <span className="max-w-[160px] truncate">{file.name}</span>
+          <button
+            type="button"
+            onClick={() => onChange(files.filter((_, i) => i !== index))}
+            className="opacity-70 hover:opacity-100"
+            aria-label={`Remove ${file.name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
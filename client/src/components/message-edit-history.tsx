@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { History } from "lucide-react";
+
+interface MessageEdit {
+  id: number;
+  action: 'edit' | 'delete';
+  previous_content: string;
+  created_at: string;
+  edited_by: {
+    id: number;
+    username: string;
+  } | null;
+}
+
+interface MessageEditHistoryProps {
+  messageId: number;
+  label: string;
+}
+
+// Earlier versions of an edited or deleted message, shown to the business only
+export default function MessageEditHistory({ messageId, label }: MessageEditHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: edits = [], isLoading } = useQuery<MessageEdit[]>({
+    queryKey: [`/api/messages/${messageId}/edits`],
+    enabled: isOpen,
+  });
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="flex items-center gap-1 underline-offset-2 hover:underline">
+          <History className="h-3 w-3" />
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-foreground">
+        <h4 className="text-sm font-medium mb-2">Message history</h4>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : edits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions</p>
+        ) : (
+          <ul className="space-y-3 max-h-64 overflow-y-auto">
+            {edits.map((edit) => (
+              <li key={edit.id} className="text-sm space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {edit.action === 'delete' ? 'Deleted' : 'Edited'} by {edit.edited_by?.username ?? 'unknown'}
+                  {' · '}{format(new Date(edit.created_at), 'PPp')}
+                </p>
+                <p className="rounded-md bg-muted p-2 whitespace-pre-wrap break-words">
+                  {edit.previous_content}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
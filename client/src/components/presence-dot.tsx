@@ -0,0 +1,18 @@
+import { cn } from "@/lib/utils";
+import type { PresenceStatus } from "@/hooks/use-presence";
+
+const STATUS_STYLES: Record<PresenceStatus, string> = {
+  online: "bg-green-500",
+  away: "bg-amber-400",
+  offline: "bg-gray-300",
+};
+
+export default function PresenceDot({ status, className }: { status: PresenceStatus; className?: string }) {
+  return (
+    <span
+      className={cn("inline-block h-2 w-2 shrink-0 rounded-full", STATUS_STYLES[status], className)}
+      title={status.charAt(0).toUpperCase() + status.slice(1)}
+      aria-label={status}
+    />
+  );
+}
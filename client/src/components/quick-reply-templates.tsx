@@ -1,21 +1,34 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MessageSquarePlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquarePlus, Settings2 } from "lucide-react";
+import ReplyTemplateManager, {
+  replyTemplatesUrl,
+  type ReplyTemplate,
+  type ReplyTemplateList,
+} from "./reply-template-manager";
 
 interface QuickReplyTemplatesProps {
   onSelectTemplate: (template: string) => void;
+  // Placeholders are filled in for this ticket when a template is picked
+  ticketId?: number;
+  businessProfileId?: number;
 }
 
-// Common support responses
-const templates = [
+// Offered until the business saves templates of its own
+const suggestedTemplates = [
   {
     label: "Greeting",
-    content: "Hello! How can I assist you today?",
+    content: "Hello {{customer.username}}! How can I assist you today?",
   },
   {
     label: "Acknowledgment",
@@ -43,33 +56,114 @@ const templates = [
   }
 ];
 
-export function QuickReplyTemplates({ onSelectTemplate }: QuickReplyTemplatesProps) {
+export function QuickReplyTemplates({ onSelectTemplate, ticketId, businessProfileId }: QuickReplyTemplatesProps) {
+  const [managerOpen, setManagerOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data } = useQuery<ReplyTemplateList>({
+    queryKey: [replyTemplatesUrl(businessProfileId)],
+  });
+
+  const templates = data?.templates ?? [];
+
+  // Group by category, uncategorised templates last
+  const groups = new Map<string, ReplyTemplate[]>();
+  templates.forEach((template) => {
+    const category = template.category || "Other";
+    groups.set(category, [...(groups.get(category) || []), template]);
+  });
+
+  const insertTemplate = async (content: string) => {
+    if (!ticketId) {
+      onSelectTemplate(content);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/tickets/${ticketId}/render-template`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to fill in template");
+      }
+      const rendered: { content: string } = await res.json();
+      onSelectTemplate(rendered.content);
+    } catch (error) {
+      onSelectTemplate(content);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-8 w-8"
-          title="Quick Reply Templates"
-        >
-          <MessageSquarePlus className="h-4 w-4" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="start" className="w-64">
-        {templates.map((template) => (
-          <DropdownMenuItem
-            key={template.label}
-            onClick={() => onSelectTemplate(template.content)}
-            className="flex flex-col items-start gap-1 cursor-pointer"
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Quick Reply Templates"
           >
-            <span className="font-medium">{template.label}</span>
-            <span className="text-xs text-muted-foreground truncate max-w-full">
-              {template.content}
-            </span>
+            <MessageSquarePlus className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64 max-h-96 overflow-y-auto">
+          {templates.length === 0 && (
+            <>
+              <DropdownMenuLabel>Suggested</DropdownMenuLabel>
+              {suggestedTemplates.map((template) => (
+                <DropdownMenuItem
+                  key={template.label}
+                  onClick={() => insertTemplate(template.content)}
+                  className="flex flex-col items-start gap-1 cursor-pointer"
+                >
+                  <span className="font-medium">{template.label}</span>
+                  <span className="text-xs text-muted-foreground truncate max-w-full">
+                    {template.content}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          {Array.from(groups.entries()).map(([category, categoryTemplates]) => (
+            <div key={category}>
+              <DropdownMenuLabel>{category}</DropdownMenuLabel>
+              {categoryTemplates.map((template) => (
+                <DropdownMenuItem
+                  key={template.id}
+                  onClick={() => insertTemplate(template.content)}
+                  className="flex flex-col items-start gap-1 cursor-pointer"
+                >
+                  <span className="font-medium">{template.title}</span>
+                  <span className="text-xs text-muted-foreground truncate max-w-full">
+                    {template.content}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </div>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setManagerOpen(true)} className="cursor-pointer">
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage templates
           </DropdownMenuItem>
-        ))}
-      </DropdownMenuContent>
-    </DropdownMenu>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ReplyTemplateManager
+        open={managerOpen}
+        onOpenChange={setManagerOpen}
+        businessProfileId={businessProfileId}
+        data={data}
+      />
+    </>
   );
 }
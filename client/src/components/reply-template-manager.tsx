@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Trash2 } from "lucide-react";
+
+export interface ReplyTemplate {
+  id: number;
+  title: string;
+  content: string;
+  category: string | null;
+  scope: 'personal' | 'shared';
+  canEdit: boolean;
+}
+
+export interface ReplyTemplateList {
+  canManageShared: boolean;
+  templates: ReplyTemplate[];
+}
+
+// Placeholders the server fills in when a template is inserted into a ticket chat
+export const TEMPLATE_PLACEHOLDERS = [
+  "{{customer.username}}",
+  "{{ticket.id}}",
+  "{{ticket.title}}",
+  "{{agent.username}}",
+  "{{business.businessName}}",
+];
+
+// Business owners act on their own business; employees name the one they mean
+export const replyTemplatesUrl = (businessProfileId?: number) =>
+  businessProfileId ? `/api/reply-templates?businessProfileId=${businessProfileId}` : '/api/reply-templates';
+
+const emptyForm = { title: "", category: "", content: "", scope: "personal" as ReplyTemplate['scope'] };
+
+interface ReplyTemplateManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessProfileId?: number;
+  data?: ReplyTemplateList;
+}
+
+export default function ReplyTemplateManager({ open, onOpenChange, businessProfileId, data }: ReplyTemplateManagerProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const templates = data?.templates ?? [];
+  const canManageShared = !!data?.canManageShared;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const saveTemplate = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(editingId ? `/api/reply-templates/${editingId}` : "/api/reply-templates", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, businessProfileId }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save template");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [replyTemplatesUrl(businessProfileId)] });
+      toast({
+        title: "Success",
+        description: editingId ? "Template updated" : "Template created",
+      });
+      resetForm();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (templateId: number) => {
+      const res = await fetch(`/api/reply-templates/${templateId}${businessProfileId ? `?businessProfileId=${businessProfileId}` : ''}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to delete template");
+      }
+      return res.json();
+    },
+    onSuccess: (_, templateId) => {
+      queryClient.invalidateQueries({ queryKey: [replyTemplatesUrl(businessProfileId)] });
+      if (templateId === editingId) resetForm();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const startEditing = (template: ReplyTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      title: template.title,
+      category: template.category ?? "",
+      content: template.content,
+      scope: template.scope,
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) resetForm();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Quick reply templates</DialogTitle>
+          <DialogDescription>
+            Personal templates are only visible to you. Shared templates are available to everyone in the business.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <ScrollArea className="h-[360px] pr-2">
+            <div className="space-y-2">
+              {templates.length === 0 && (
+                <p className="text-sm text-muted-foreground">No templates yet</p>
+              )}
+              {templates.map((template) => (
+                <div key={template.id} className="rounded-md border p-2 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium text-sm truncate">{template.title}</p>
+                    {template.canEdit && (
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startEditing(template)} aria-label="Edit template">
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => deleteTemplate.mutate(template.id)}
+                          disabled={deleteTemplate.isPending}
+                          aria-label="Delete template"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Badge variant={template.scope === 'shared' ? "default" : "outline"}>{template.scope}</Badge>
+                    {template.category && <Badge variant="secondary">{template.category}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{template.content}</p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (form.title.trim() && form.content.trim()) saveTemplate.mutate();
+            }}
+            className="space-y-3"
+          >
+            <div className="space-y-1">
+              <Label htmlFor="template-title">Title</Label>
+              <Input
+                id="template-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-category">Category</Label>
+              <Input
+                id="template-category"
+                placeholder="e.g. Billing"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-content">Content</Label>
+              <Textarea
+                id="template-content"
+                rows={5}
+                value={form.content}
+                onChange={(e) => setForm({ ...form, content: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Placeholders: {TEMPLATE_PLACEHOLDERS.join(", ")}
+              </p>
+            </div>
+            {canManageShared && (
+              <div className="space-y-1">
+                <Label>Visibility</Label>
+                <Select
+                  value={form.scope}
+                  onValueChange={(scope: ReplyTemplate['scope']) => setForm({ ...form, scope })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="personal">Only me</SelectItem>
+                    <SelectItem value="shared">Everyone in the business</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={!form.title.trim() || !form.content.trim() || saveTemplate.isPending}>
+                {editingId ? "Save changes" : "Add template"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+type Strategy = 'manual' | 'round_robin' | 'least_loaded';
+
+interface RoutingSettingsData {
+  strategy: Strategy;
+  max_open_tickets: number | null;
+}
+
+const STRATEGIES: { value: Strategy; label: string; description: string }[] = [
+  {
+    value: "manual",
+    label: "Manual",
+    description: "New tickets wait in Active Tickets until an employee claims them.",
+  },
+  {
+    value: "round_robin",
+    label: "Round robin",
+    description: "New tickets go to each active employee in turn.",
+  },
+  {
+    value: "least_loaded",
+    label: "Fewest open tickets",
+    description: "New tickets go to the active employee with the fewest unresolved claims.",
+  },
+];
+
+export default function RoutingSettings() {
+  const [strategy, setStrategy] = useState<Strategy>("manual");
+  const [capacity, setCapacity] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<RoutingSettingsData>({
+    queryKey: ['/api/routing-settings'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setStrategy(settings.strategy);
+      setCapacity(settings.max_open_tickets ? String(settings.max_open_tickets) : "");
+    }
+  }, [settings]);
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/routing-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          strategy,
+          maxOpenTickets: capacity ? Number(capacity) : null,
+        }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save routing settings");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/routing-settings'] });
+      toast({
+        title: "Success",
+        description: "Routing settings saved successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <h3 className="text-sm font-medium">Ticket Routing</h3>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Assign new tickets</Label>
+          <Select value={strategy} onValueChange={(value: Strategy) => setStrategy(value)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STRATEGIES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="routing-capacity">Max open tickets per employee</Label>
+          <Input
+            id="routing-capacity"
+            type="number"
+            min={1}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+            placeholder="No limit"
+            className="w-[200px]"
+            disabled={strategy === "manual"}
+          />
+        </div>
+        <Button onClick={() => saveSettings.mutate()} disabled={saveSettings.isPending}>
+          Save
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {STRATEGIES.find((option) => option.value === strategy)?.description}
+        {strategy !== "manual" && " Employees skilled in the ticket's category are preferred and paused employees are skipped."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { formatDistanceStrict } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+
+type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+interface SlaTarget {
+  dueAt: string;
+  state: SlaState;
+}
+
+export interface TicketSla {
+  policyId: number;
+  firstResponse: SlaTarget;
+  nextResponse: SlaTarget | null;
+  resolution: SlaTarget;
+  state: Exclude<SlaState, 'met'> | null;
+  dueAt: string | null;
+}
+
+const STATE_STYLES: Record<Exclude<SlaState, 'met'>, string> = {
+  on_track: 'border-green-500 text-green-600',
+  at_risk: 'border-orange-500 text-orange-500',
+  breached: 'border-red-500 bg-red-50 text-red-600',
+};
+
+// Lower sorts first: breached, then at risk, then the soonest deadline
+export function slaUrgency(sla?: TicketSla | null) {
+  if (!sla?.state || !sla.dueAt) return Number.MAX_SAFE_INTEGER;
+  const rank = { breached: 0, at_risk: 1, on_track: 2 }[sla.state];
+  return rank * 1e13 + new Date(sla.dueAt).getTime();
+}
+
+export default function SlaBadge({ sla }: { sla?: TicketSla | null }) {
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the countdown ticking while the list is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!sla?.state || !sla.dueAt) return null;
+
+  const dueAt = new Date(sla.dueAt);
+  const target = sla.dueAt === sla.firstResponse.dueAt
+    ? 'first response'
+    : sla.dueAt === sla.nextResponse?.dueAt
+      ? 'response'
+      : 'resolution';
+  const overdue = dueAt.getTime() <= now.getTime();
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs flex items-center gap-1 ${STATE_STYLES[overdue ? 'breached' : sla.state]}`}
+      title={`SLA ${target} due ${dueAt.toLocaleString()}`}
+    >
+      <Timer className="h-3 w-3" />
+      {overdue
+        ? `${target} overdue by ${formatDistanceStrict(now, dueAt)}`
+        : `${target} in ${formatDistanceStrict(dueAt, now)}`}
+    </Badge>
+  );
+}
@@ -0,0 +1,404 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import type { BusinessHours } from "@db/schema";
+
+interface SlaPolicy {
+  id: number;
+  name: string;
+  priority: string | null;
+  category: string | null;
+  first_response_minutes: number;
+  next_response_minutes: number | null;
+  resolution_minutes: number;
+  business_hours: BusinessHours | null;
+}
+
+interface PolicyForm {
+  name: string;
+  priority: string;
+  category: string;
+  firstResponseMinutes: string;
+  nextResponseMinutes: string;
+  resolutionMinutes: string;
+  useBusinessHours: boolean;
+  days: number[];
+  start: string;
+  end: string;
+}
+
+const PRIORITIES = ["low", "medium", "high", "urgent"];
+
+const CATEGORIES = [
+  { value: "technical", label: "Technical Issue" },
+  { value: "billing", label: "Billing Problem" },
+  { value: "feature_request", label: "Feature Request" },
+  { value: "general_inquiry", label: "General Inquiry" },
+  { value: "bug_report", label: "Bug Report" },
+];
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const EMPTY_FORM: PolicyForm = {
+  name: "",
+  priority: "any",
+  category: "any",
+  firstResponseMinutes: "60",
+  nextResponseMinutes: "",
+  resolutionMinutes: "1440",
+  useBusinessHours: false,
+  days: [1, 2, 3, 4, 5],
+  start: "09:00",
+  end: "17:00",
+};
+
+function formatMinutes(minutes: number | null) {
+  if (!minutes) return "—";
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function toForm(policy: SlaPolicy): PolicyForm {
+  return {
+    name: policy.name,
+    priority: policy.priority ?? "any",
+    category: policy.category ?? "any",
+    firstResponseMinutes: String(policy.first_response_minutes),
+    nextResponseMinutes: policy.next_response_minutes ? String(policy.next_response_minutes) : "",
+    resolutionMinutes: String(policy.resolution_minutes),
+    useBusinessHours: !!policy.business_hours,
+    days: policy.business_hours?.days ?? EMPTY_FORM.days,
+    start: policy.business_hours?.start ?? EMPTY_FORM.start,
+    end: policy.business_hours?.end ?? EMPTY_FORM.end,
+  };
+}
+
+export default function SlaPolicyManager() {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: policies = [] } = useQuery<SlaPolicy[]>({
+    queryKey: ['/api/sla-policies'],
+  });
+
+  const savePolicy = useMutation({
+    mutationFn: async (data: PolicyForm) => {
+      const res = await fetch(editingId ? `/api/sla-policies/${editingId}` : "/api/sla-policies", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: data.name,
+          priority: data.priority === "any" ? null : data.priority,
+          category: data.category === "any" ? null : data.category,
+          firstResponseMinutes: Number(data.firstResponseMinutes),
+          nextResponseMinutes: data.nextResponseMinutes ? Number(data.nextResponseMinutes) : null,
+          resolutionMinutes: Number(data.resolutionMinutes),
+          businessHours: data.useBusinessHours
+            ? {
+                days: data.days,
+                start: data.start,
+                end: data.end,
+                utcOffsetMinutes: -new Date().getTimezoneOffset(),
+              }
+            : null,
+        }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save SLA policy");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "SLA policy saved successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (policyId: number) => {
+      const res = await fetch(`/api/sla-policies/${policyId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to delete SLA policy");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      toast({
+        title: "Success",
+        description: "SLA policy deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const openDialog = (policy?: SlaPolicy) => {
+    setEditingId(policy?.id ?? null);
+    setForm(policy ? toForm(policy) : EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const updateForm = (changes: Partial<PolicyForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          The most specific matching policy applies when a ticket is created or re-prioritized.
+        </p>
+        <Button className="flex items-center gap-2" onClick={() => openDialog()}>
+          <Plus className="h-4 w-4" />
+          Add Policy
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead>First response</TableHead>
+              <TableHead>Next response</TableHead>
+              <TableHead>Resolution</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map((policy) => (
+              <TableRow key={policy.id}>
+                <TableCell>{policy.name}</TableCell>
+                <TableCell className="capitalize">
+                  {policy.priority ?? "any priority"} · {policy.category?.replace(/_/g, ' ') ?? "any category"}
+                </TableCell>
+                <TableCell>{formatMinutes(policy.first_response_minutes)}</TableCell>
+                <TableCell>{formatMinutes(policy.next_response_minutes)}</TableCell>
+                <TableCell>{formatMinutes(policy.resolution_minutes)}</TableCell>
+                <TableCell>
+                  {policy.business_hours
+                    ? `${policy.business_hours.days.map((day) => DAYS[day]).join(', ')} ${policy.business_hours.start}–${policy.business_hours.end}`
+                    : "24/7"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(policy)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm('Delete this SLA policy? Tickets using it will no longer track deadlines.')) {
+                          deletePolicy.mutate(policy.id);
+                        }
+                      }}
+                      disabled={deletePolicy.isPending}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {policies.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No SLA policies yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit SLA Policy" : "New SLA Policy"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePolicy.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="sla-name">Name</Label>
+              <Input
+                id="sla-name"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Urgent billing"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={form.priority} onValueChange={(priority) => updateForm({ priority })}>
+                  <SelectTrigger className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any priority</SelectItem>
+                    {PRIORITIES.map((priority) => (
+                      <SelectItem key={priority} value={priority} className="capitalize">
+                        {priority}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(category) => updateForm({ category })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any category</SelectItem>
+                    {CATEGORIES.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-first">First response (min)</Label>
+                <Input
+                  id="sla-first"
+                  type="number"
+                  min={1}
+                  value={form.firstResponseMinutes}
+                  onChange={(e) => updateForm({ firstResponseMinutes: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-next">Next response (min)</Label>
+                <Input
+                  id="sla-next"
+                  type="number"
+                  min={1}
+                  value={form.nextResponseMinutes}
+                  onChange={(e) => updateForm({ nextResponseMinutes: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-resolution">Resolution (min)</Label>
+                <Input
+                  id="sla-resolution"
+                  type="number"
+                  min={1}
+                  value={form.resolutionMinutes}
+                  onChange={(e) => updateForm({ resolutionMinutes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sla-hours"
+                  checked={form.useBusinessHours}
+                  onCheckedChange={(useBusinessHours) => updateForm({ useBusinessHours })}
+                />
+                <Label htmlFor="sla-hours">Only count business hours</Label>
+              </div>
+              {form.useBusinessHours && (
+                <div className="space-y-3 rounded-md border p-3">
+                  <div className="flex flex-wrap gap-3">
+                    {DAYS.map((label, day) => (
+                      <label key={label} className="flex items-center gap-1 text-sm">
+                        <Checkbox
+                          checked={form.days.includes(day)}
+                          onCheckedChange={(checked) => updateForm({
+                            days: checked
+                              ? [...form.days, day].sort()
+                              : form.days.filter((d) => d !== day),
+                          })}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <Input type="time" value={form.start} onChange={(e) => updateForm({ start: e.target.value })} />
+                    <Input type="time" value={form.end} onChange={(e) => updateForm({ end: e.target.value })} />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={savePolicy.isPending}>
+              {savePolicy.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,551 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Hash, Loader2, LogOut, Plus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { supabase } from "@/lib/supabase";
+import { cn } from "@/lib/utils";
+
+export interface TeamChannel {
+  id: number;
+  business_profile_id: number;
+  name: string;
+  description: string | null;
+  memberCount: number;
+  isMember: boolean;
+  unreadCount: number;
+  mentionCount: number;
+  lastMessage?: {
+    content: string;
+    created_at: string;
+    sender: { id: number; username: string };
+  };
+}
+
+interface ChannelMessage {
+  id: number;
+  channel_id: number;
+  content: string;
+  mentions: number[];
+  created_at: string;
+  sender: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+interface ChannelPage {
+  messages: ChannelMessage[];
+  hasMore: boolean;
+}
+
+interface ChannelMember {
+  id: number;
+  username: string;
+  role: string;
+}
+
+// Business owners act on their own business; employees name the one they mean
+const channelsUrl = (businessProfileId?: number) =>
+  businessProfileId ? `/api/team-channels?businessProfileId=${businessProfileId}` : '/api/team-channels';
+
+const isChannelsQuery = (queryKey: readonly unknown[]) =>
+  typeof queryKey[0] === 'string' &&
+  (queryKey[0] === '/api/team-channels' || queryKey[0].startsWith('/api/team-channels?'));
+
+async function postJson(url: string, body: unknown, fallbackError: string) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || fallbackError);
+  }
+  return res.json();
+}
+
+// Message text with @mentions picked out
+function MessageContent({ content, highlight }: { content: string; highlight?: string }) {
+  const parts = content.split(/(@[\w.-]+)/g);
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        part.startsWith('@') ? (
+          <span
+            key={index}
+            className={cn(
+              "font-medium text-blue-600",
+              highlight && part.slice(1).toLowerCase() === highlight.toLowerCase() && "bg-amber-100 rounded px-0.5"
+            )}
+          >
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function CreateChannelDialog({ businessProfileId, onCreated }: { businessProfileId?: number; onCreated: (channelId: number) => void }) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createChannel = useMutation({
+    mutationFn: () => postJson('/api/team-channels', { name, description, businessProfileId }, "Failed to create channel"),
+    onSuccess: (channel) => {
+      queryClient.invalidateQueries({ predicate: (query) => isChannelsQuery(query.queryKey) });
+      setOpen(false);
+      setName("");
+      setDescription("");
+      onCreated(channel.id);
+      toast({
+        title: "Success",
+        description: `#${channel.name} created`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Create channel">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create a channel</DialogTitle>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) createChannel.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="channel-name">Name</Label>
+            <Input
+              id="channel-name"
+              placeholder="e.g. billing"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-description">Description</Label>
+            <Input
+              id="channel-description"
+              placeholder="What is this channel about?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={!name.trim() || createChannel.isPending}>
+            {createChannel.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create channel
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TeamChannelListProps {
+  businessProfileId?: number;
+  title?: string;
+  selectedChannelId: number | null;
+  onSelect: (channel: TeamChannel) => void;
+}
+
+// Channels the user belongs to, with unread and mention counts, plus others they can join
+export function TeamChannelList({ businessProfileId, title = "Channels", selectedChannelId, onSelect }: TeamChannelListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: channels = [] } = useQuery<TeamChannel[]>({
+    queryKey: [channelsUrl(businessProfileId)],
+  });
+
+  const joined = channels.filter((channel) => channel.isMember);
+  const others = channels.filter((channel) => !channel.isMember);
+
+  // Refresh counts when anything is posted in one of these channels
+  const channelIds = channels.map((channel) => channel.id).join(',');
+  useEffect(() => {
+    if (!channelIds) return;
+
+    const subscription = supabase
+      .channel(`team-channel-list:${businessProfileId ?? 'own'}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'team_channel_messages', filter: `channel_id=in.(${channelIds})` },
+        () => queryClient.invalidateQueries({ queryKey: [channelsUrl(businessProfileId)] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [channelIds, businessProfileId, queryClient]);
+
+  const joinChannel = useMutation({
+    mutationFn: (channel: TeamChannel) =>
+      postJson(`/api/team-channels/${channel.id}/members`, {}, "Failed to join channel").then(() => channel),
+    onSuccess: (channel) => {
+      queryClient.invalidateQueries({ queryKey: [channelsUrl(businessProfileId)] });
+      onSelect({ ...channel, isMember: true });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const renderChannel = (channel: TeamChannel) => (
+    <button
+      key={channel.id}
+      onClick={() => channel.isMember ? onSelect(channel) : joinChannel.mutate(channel)}
+      disabled={joinChannel.isPending}
+      className={cn(
+        "w-full px-3 py-2 text-left rounded-lg transition-colors",
+        selectedChannelId === channel.id ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className={cn("flex items-center gap-1 truncate", channel.unreadCount > 0 && "font-semibold")}>
+          <Hash className="h-4 w-4 shrink-0 opacity-70" />
+          {channel.name}
+        </p>
+        {channel.isMember ? (
+          <span className="flex items-center gap-1">
+            {channel.mentionCount > 0 && (
+              <span className="inline-flex items-center justify-center bg-red-500 text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1">
+                @{channel.mentionCount}
+              </span>
+            )}
+            {channel.unreadCount > 0 && (
+              <span className="inline-flex items-center justify-center bg-primary text-primary-foreground text-xs rounded-full h-5 min-w-[1.25rem] px-1">
+                {channel.unreadCount}
+              </span>
+            )}
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">Join</span>
+        )}
+      </div>
+      {channel.lastMessage && (
+        <p className="mt-1 text-sm opacity-70 truncate">
+          {channel.lastMessage.sender.username}: {channel.lastMessage.content}
+        </p>
+      )}
+    </button>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+          <Hash className="h-4 w-4" />
+          {title}
+        </h3>
+        <CreateChannelDialog
+          businessProfileId={businessProfileId}
+          onCreated={(channelId) => {
+            // Select the new channel once the refreshed list has it
+            queryClient
+              .fetchQuery<TeamChannel[]>({ queryKey: [channelsUrl(businessProfileId)] })
+              .then((list) => {
+                const created = list.find((channel) => channel.id === channelId);
+                if (created) onSelect(created);
+              });
+          }}
+        />
+      </div>
+      <div className="space-y-1">
+        {joined.map(renderChannel)}
+        {others.length > 0 && (
+          <>
+            <p className="pt-2 text-xs text-muted-foreground">More channels</p>
+            {others.map(renderChannel)}
+          </>
+        )}
+        {channels.length === 0 && (
+          <p className="text-sm text-muted-foreground">No channels yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TeamChannelChatProps {
+  channel: TeamChannel;
+  onLeave?: () => void;
+}
+
+export function TeamChannelChat({ channel, onLeave }: TeamChannelChatProps) {
+  const [newMessage, setNewMessage] = useState("");
+  const [olderMessages, setOlderMessages] = useState<ChannelMessage[]>([]);
+  const [hasOlder, setHasOlder] = useState<boolean | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesKey = [`/api/team-channels/${channel.id}/messages`];
+
+  const { data: latestPage, isLoading } = useQuery<ChannelPage>({
+    queryKey: messagesKey,
+  });
+
+  const { data: members = [] } = useQuery<ChannelMember[]>({
+    queryKey: [`/api/team-channels/${channel.id}/members`],
+  });
+
+  useEffect(() => {
+    setOlderMessages([]);
+    setHasOlder(null);
+  }, [channel.id]);
+
+  const messages = useMemo(() => {
+    const byId = new Map<number, ChannelMessage>();
+    [...olderMessages, ...(latestPage?.messages ?? [])].forEach((message) => byId.set(message.id, message));
+    return Array.from(byId.values()).sort((a, b) => a.id - b.id);
+  }, [olderMessages, latestPage]);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  // Scroll to bottom when new messages arrive, but not when earlier ones are loaded
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [lastMessageId]);
+
+  // Live updates for this channel
+  useEffect(() => {
+    const subscription = supabase
+      .channel(`team-channel:${channel.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'team_channel_messages', filter: `channel_id=eq.${channel.id}` },
+        () => queryClient.invalidateQueries({ queryKey: [`/api/team-channels/${channel.id}/messages`] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [channel.id, queryClient]);
+
+  // Mark the channel read while it is on screen
+  useEffect(() => {
+    if (!lastMessageId || document.visibilityState !== 'visible') return;
+
+    postJson(`/api/team-channels/${channel.id}/read`, {}, "Failed to update read status")
+      .then(() => queryClient.invalidateQueries({ predicate: (query) => isChannelsQuery(query.queryKey) }))
+      .catch((error) => console.error('Error marking channel read:', error));
+  }, [channel.id, lastMessageId, queryClient]);
+
+  const loadOlderMessages = async () => {
+    if (!messages.length || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const res = await fetch(`/api/team-channels/${channel.id}/messages?before=${messages[0].id}`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to load messages");
+      }
+      const page: ChannelPage = await res.json();
+      setOlderMessages([...page.messages, ...messages]);
+      setHasOlder(page.hasMore);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const sendMessage = useMutation({
+    mutationFn: (content: string) =>
+      postJson(`/api/team-channels/${channel.id}/messages`, { content }, "Failed to send message"),
+    onSuccess: () => {
+      setNewMessage("");
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error sending message",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  const leaveChannel = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/team-channels/${channel.id}/members/${user?.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to leave channel");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => isChannelsQuery(query.queryKey) });
+      onLeave?.();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  // Offer member names while an @mention is being typed
+  const mentionQuery = newMessage.match(/@([\w.-]*)$/)?.[1];
+  const mentionSuggestions = mentionQuery === undefined
+    ? []
+    : members
+      .filter((member) => member.id !== user?.id && member.username.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+      .slice(0, 5);
+
+  const canLoadOlder = hasOlder ?? latestPage?.hasMore ?? false;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b px-4 py-3 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="font-semibold flex items-center gap-1">
+            <Hash className="h-4 w-4" />
+            {channel.name}
+          </h2>
+          {channel.description && (
+            <p className="text-sm text-muted-foreground truncate">{channel.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="flex items-center gap-1 text-sm text-muted-foreground" title={members.map((member) => member.username).join(", ")}>
+            <Users className="h-4 w-4" />
+            {members.length}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => leaveChannel.mutate()} disabled={leaveChannel.isPending}>
+            <LogOut className="h-4 w-4 mr-1" />
+            Leave
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 px-4">
+        <div className="space-y-3 py-4">
+          {canLoadOlder && (
+            <div className="flex justify-center">
+              <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={loadingOlder}>
+                {loadingOlder && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load earlier messages
+              </Button>
+            </div>
+          )}
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className={cn(
+                "rounded-lg px-3 py-2",
+                user && message.mentions?.includes(user.id) ? "bg-amber-50" : "hover:bg-muted/50"
+              )}
+            >
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm font-medium">{message.sender.username}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(message.created_at).toLocaleString()}
+                </span>
+              </div>
+              <MessageContent content={message.content} highlight={user?.username} />
+            </div>
+          ))}
+          {!isLoading && messages.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No messages in #{channel.name} yet
+            </p>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+      </ScrollArea>
+
+      <div className="border-t p-4 bg-background mt-auto space-y-2">
+        {mentionSuggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {mentionSuggestions.map((member) => (
+              <Button
+                key={member.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setNewMessage(newMessage.replace(/@[\w.-]*$/, `@${member.username} `))}
+              >
+                @{member.username}
+              </Button>
+            ))}
+          </div>
+        )}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newMessage.trim()) sendMessage.mutate(newMessage.trim());
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            placeholder={`Message #${channel.name}`}
+            className="flex-1"
+            disabled={sendMessage.isPending}
+          />
+          <Button type="submit" disabled={!newMessage.trim() || sendMessage.isPending}>
+            {sendMessage.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send"}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
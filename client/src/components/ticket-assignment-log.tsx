@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bot } from "lucide-react";
+
+interface Assignment {
+  id: number;
+  method: string;
+  reason: string;
+  created_at: string;
+  assignee: {
+    id: number;
+    username: string;
+  } | null;
+}
+
+interface TicketAssignmentLogProps {
+  ticketId: number;
+}
+
+export default function TicketAssignmentLog({ ticketId }: TicketAssignmentLogProps) {
+  const { data: assignments = [] } = useQuery<Assignment[]>({
+    queryKey: [`/api/tickets/${ticketId}/assignments`],
+  });
+
+  if (assignments.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold text-sm">Assignment Log</h3>
+      <ul className="space-y-2">
+        {assignments.map((assignment) => (
+          <li key={assignment.id} className="flex items-start gap-2 text-sm">
+            <Bot className="h-4 w-4 mt-0.5 text-muted-foreground" />
+            <div>
+              <p>{assignment.reason}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(assignment.created_at).toLocaleString()}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { Workflow } from "lucide-react";
+
+interface AutomationRun {
+  id: number;
+  rule_name: string;
+  trigger: string;
+  outcome: 'success' | 'failed';
+  details: string[];
+  created_at: string;
+}
+
+interface TicketAutomationLogProps {
+  ticketId: number;
+}
+
+export default function TicketAutomationLog({ ticketId }: TicketAutomationLogProps) {
+  const { data: runs = [] } = useQuery<AutomationRun[]>({
+    queryKey: [`/api/tickets/${ticketId}/automation-runs`],
+  });
+
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold text-sm">Automation Log</h3>
+      <ul className="space-y-2">
+        {runs.map((run) => (
+          <li key={run.id} className="flex items-start gap-2 text-sm">
+            <Workflow className={`h-4 w-4 mt-0.5 ${run.outcome === 'failed' ? 'text-red-500' : 'text-muted-foreground'}`} />
+            <div>
+              <p>
+                <span className="font-medium">{run.rule_name}</span>
+                <span className="text-muted-foreground"> · {run.trigger.replace(/_/g, ' ')}</span>
+              </p>
+              {run.details.map((detail, index) => (
+                <p key={index} className={run.outcome === 'failed' && index === run.details.length - 1 ? 'text-red-500' : undefined}>
+                  {detail}
+                </p>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {new Date(run.created_at).toLocaleString()}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,16 +1,38 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { useRealtime } from "@/hooks/use-realtime";
-import { Loader2, Check, CheckCheck, Megaphone, Clock } from "lucide-react";
+import { acknowledgeDelivered, useRealtime } from "@/hooks/use-realtime";
+import { Loader2, Check, CheckCheck, Megaphone, Clock, Pencil, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
 import { QuickReplyTemplates } from "@/components/quick-reply-templates";
+import { TicketMacros } from "@/components/ticket-macros";
 import { supabase } from "@/lib/supabase";
+import {
+  AttachmentList,
+  AttachmentPicker,
+  PendingAttachments,
+  uploadAttachment,
+  type AttachmentInfo
+} from "@/components/message-attachments";
+import MessageEditHistory from "@/components/message-edit-history";
+import { formatTypingUsers, useTypingIndicator } from "@/hooks/use-typing";
+import { useTicketViewers } from "@/hooks/use-ticket-viewers";
+import { ViewerNotice } from "@/components/ticket-viewers";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface Message {
   id: number;
@@ -18,17 +40,20 @@ interface Message {
   ticket_id: number | null;
   sender_id: string;
   receiver_id: string;
-  status: 'sent' | 'delivered' | 'read';
+  status: 'sending' | 'sent' | 'delivered' | 'read';
   chat_initiator?: boolean;
   initiated_at?: string | null;
   business_id?: string;
   sent_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
   created_at: string;
   sender: {
-    id: string;
+    id: number;
     username: string;
     role: string;
   };
+  attachments?: AttachmentInfo[];
 }
 
 interface TicketChatProps {
@@ -52,189 +77,245 @@ const MessageHeader = ({ username, role, isBroadcast }: { username: string; role
 
 export default function TicketChat({ ticketId, directMessageUserId, chatType = 'ticket', readonly = false }: TicketChatProps) {
   const [newMessage, setNewMessage] = useState("");
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editContent, setEditContent] = useState("");
   const { user } = useUser();
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const [optimisticMessages, setOptimisticMessages] = useState<Message[]>([]);
 
-  // Query for messages - either ticket messages or direct messages
-  const { data: messages = [] } = useQuery<Message[]>({
+  // Query for messages - either ticket messages or the latest page of direct messages
+  const { data: latestPage } = useQuery<{ messages: Message[]; hasMore: boolean }>({
     queryKey: ticketId
       ? ['/api/tickets', ticketId, 'messages']
       : directMessageUserId
         ? ['/api/direct-messages', directMessageUserId]
         : [],
     queryFn: async () => {
-      if (ticketId) {
-        const { data, error } = await supabase
-          .from('messages')
-          .select(`
-            *,
-            sender:sender_id (
-              id,
-              username,
-              role
-            )
-          `)
-          .eq('ticket_id', ticketId)
-          .order('created_at', { ascending: true });
-
-        if (error) throw error;
-        return data || [];
-      } else if (directMessageUserId) {
-        const { data, error } = await supabase
-          .from('messages')
-          .select(`
-            *,
-            sender:sender_id (
-              id,
-              username,
-              role
-            )
-          `)
-          .or(`sender_id.eq.${user?.id},receiver_id.eq.${user?.id}`)
-          .order('created_at', { ascending: true });
-
-        if (error) throw error;
-        return data || [];
+      const res = await fetch(
+        ticketId ? `/api/tickets/${ticketId}/messages` : `/api/direct-messages/${directMessageUserId}`,
+        { credentials: "include" }
+      );
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to load messages");
       }
-      return [];
+      const data = await res.json();
+      return ticketId ? { messages: data, hasMore: false } : data;
     },
     enabled: !!(ticketId || directMessageUserId) && !!user
   });
 
+  // Earlier direct messages, loaded a page at a time on request
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
+  const [hasOlder, setHasOlder] = useState<boolean | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  useEffect(() => {
+    setOlderMessages([]);
+    setHasOlder(null);
+  }, [directMessageUserId]);
+
+  const messages = useMemo(() => {
+    const byId = new Map<number, Message>();
+    [...olderMessages, ...(latestPage?.messages ?? [])].forEach(message => byId.set(message.id, message));
+    return Array.from(byId.values()).sort((a, b) => a.id - b.id);
+  }, [olderMessages, latestPage]);
+
+  const canLoadOlder = !ticketId && (hasOlder ?? latestPage?.hasMore ?? false);
+
+  const loadOlderMessages = async () => {
+    if (!messages.length || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const res = await fetch(
+        `/api/direct-messages/${directMessageUserId}?before=${messages[0].id}`,
+        { credentials: "include" }
+      );
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to load messages");
+      }
+      const page: { messages: Message[]; hasMore: boolean } = await res.json();
+      // Keep what is already on screen too, so nothing is lost when the latest page moves on
+      setOlderMessages([...page.messages, ...messages]);
+      setHasOlder(page.hasMore);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
   // Get ticket details if in ticket mode
   const { data: ticket } = useQuery({
     queryKey: ['/api/tickets', ticketId],
     queryFn: async () => {
-      if (!ticketId) return null;
-      const { data, error } = await supabase
-        .from('tickets')
-        .select('*, claimed_by_id')
-        .eq('id', ticketId)
-        .single();
-
-      if (error) throw error;
-
-      // For employees, check if they have access to the business
-      if (user?.role === 'employee') {
-        const { data: hasAccess } = await supabase
-          .from('business_employees')
-          .select('*')
-          .eq('employee_id', user.id)
-          .eq('business_profile_id', data.business_profile_id)
-          .eq('is_active', true)
-          .single();
-
-        if (!hasAccess) {
-          throw new Error('You do not have access to this ticket');
-        }
+      const res = await fetch(`/api/tickets/${ticketId}`, {
+        credentials: "include"
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to load ticket");
       }
-
-      return data;
+      return res.json();
     },
     enabled: !!ticketId && !!user
   });
 
-  // Scroll to bottom when new messages arrive
+  // Scroll to bottom when new messages arrive, but not when earlier ones are loaded
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages, optimisticMessages]);
+  }, [lastMessageId, optimisticMessages]);
+
+  // Live "is typing" events for this conversation
+  const typingTopic = ticketId
+    ? `ticket:${ticketId}`
+    : directMessageUserId && user
+      ? `dm:${[user.id, Number(directMessageUserId)].sort((a, b) => a - b).join('-')}`
+      : null;
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(typingTopic);
+  const typingLabel = formatTypingUsers(typingUsers);
+
+  // Acknowledge ticket messages that reached us while we were away, even if they aren't read yet
+  useEffect(() => {
+    if (!ticketId || !user) return;
+
+    const pending = (latestPage?.messages ?? [])
+      .filter(message => message.status === 'sent' && String(message.receiver_id) === String(user.id))
+      .map(message => message.id);
+
+    if (pending.length > 0) {
+      acknowledgeDelivered(pending);
+    }
+  }, [latestPage, ticketId, user]);
+
+  // Mark the other side's messages read while the conversation is on screen, once when
+  // it opens and again whenever something new arrives. Staff read on behalf of the
+  // business, so only the customer's messages count for them.
+  const lastMarkedRef = useRef<{ conversation: string; messageId: number } | null>(null);
+
+  useEffect(() => {
+    if (!user || readonly || (!ticketId && !directMessageUserId)) return;
+
+    const conversation = ticketId ? `ticket:${ticketId}` : `user:${directMessageUserId}`;
+    const isIncoming = (message: Message) =>
+      ticketId && user.role !== 'customer'
+        ? message.sender.role === 'customer'
+        : message.sender.id !== user.id;
+
+    const markRead = () => {
+      const latestIncoming = messages.filter(isIncoming).pop()?.id ?? 0;
+      const lastMarked = lastMarkedRef.current;
+      const alreadyMarked = lastMarked?.conversation === conversation && lastMarked.messageId >= latestIncoming;
+
+      if (alreadyMarked || document.visibilityState !== 'visible') return;
+      lastMarkedRef.current = { conversation, messageId: latestIncoming };
+
+      fetch(
+        ticketId ? `/api/tickets/${ticketId}/messages/read` : `/api/direct-messages/${directMessageUserId}/read`,
+        { method: "POST", credentials: "include" }
+      )
+        .then(() => {
+          queryClient.invalidateQueries({ queryKey: ['/api/messages/unread'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/direct-messages'], exact: true });
+          queryClient.invalidateQueries({ queryKey: ['/api/business/employees/messages'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/tickets/claimed'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/tickets/customer'] });
+        })
+        .catch(error => console.error('Error marking messages read:', error));
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [messages, ticketId, directMessageUserId, user, readonly, queryClient]);
 
   // Subscribe to real-time updates for messages
   useEffect(() => {
     if (!ticketId && !directMessageUserId) return;
+    if (!ticketId && !user) return;
 
-    const messageSubscription = supabase
-      .channel('messages')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'messages',
-          filter: ticketId
-            ? `ticket_id=eq.${ticketId}`
-            : `or(sender_id.eq.${user?.id},receiver_id.eq.${user?.id})`
-        },
-        () => {
-          queryClient.invalidateQueries({
-            queryKey: ticketId
-              ? ['/api/tickets', ticketId, 'messages']
-              : ['/api/direct-messages', directMessageUserId]
-          });
-        }
-      )
-      .subscribe();
+    const refresh = () => {
+      queryClient.invalidateQueries({
+        queryKey: ticketId
+          ? ['/api/tickets', ticketId, 'messages']
+          : ['/api/direct-messages', directMessageUserId]
+      });
+    };
+
+    const messageSubscription = ticketId
+      ? supabase
+        .channel(`ticket-chat:${ticketId}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'messages', filter: `ticket_id=eq.${ticketId}` },
+          refresh
+        )
+        .subscribe()
+      // Direct messages arriving for us, and read receipts on the ones we sent
+      : supabase
+        .channel(`dm-chat:${user!.id}:${directMessageUserId}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'direct_messages', filter: `receiver_id=eq.${user!.id}` },
+          refresh
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'direct_messages', filter: `sender_id=eq.${user!.id}` },
+          refresh
+        )
+        .subscribe();
 
     return () => {
-      messageSubscription.unsubscribe();
+      supabase.removeChannel(messageSubscription);
     };
-  }, [ticketId, directMessageUserId, user?.id, queryClient]);
+  }, [ticketId, directMessageUserId, user, queryClient]);
+
+  const invalidateMessages = () => {
+    queryClient.invalidateQueries({
+      queryKey: ticketId
+        ? ['/api/tickets', ticketId, 'messages']
+        : ['/api/direct-messages', directMessageUserId]
+    });
+  };
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, files }: { content: string; files: File[] }) => {
       if (!user) throw new Error("Not authenticated");
 
-      let receiverId: string;
-      if (ticketId) {
-        // For ticket messages
-        const { data: ticket } = await supabase
-          .from('tickets')
-          .select(`
-            customer_id,
-            business:business_profile_id (
-              id,
-              user_id
-            )
-          `)
-          .eq('id', ticketId)
-          .single();
-
-        if (!ticket) throw new Error("Ticket not found");
-
-        receiverId = user.role === 'customer'
-          ? ticket.business.user_id
-          : ticket.customer_id;
-      } else if (directMessageUserId) {
-        // For direct messages
-        receiverId = directMessageUserId;
-      } else {
-        throw new Error("Invalid message target: Must specify either ticketId or receiverId");
-      }
-
-      const message = {
-        content,
-        ticket_id: ticketId || null,
-        sender_id: user.id,
-        receiver_id: receiverId,
-        status: 'sent',
-        chat_initiator: messages.length === 0,
-        initiated_at: messages.length === 0 ? new Date().toISOString() : null,
-        sent_at: new Date().toISOString(),
-        created_at: new Date().toISOString()
-      };
+      // Upload first so a rejected file doesn't leave a half-sent message behind
+      const uploaded = await Promise.all(files.map(uploadAttachment));
 
-      const { data, error } = await supabase
-        .from('messages')
-        .insert(message)
-        .select(`
-          *,
-          sender:sender_id (
-            id,
-            username,
-            role
-          )
-        `)
-        .single();
-
-      if (error) throw error;
-      return data;
+      const res = await fetch(
+        ticketId ? `/api/tickets/${ticketId}/messages` : `/api/direct-messages/${directMessageUserId}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(ticketId
+            ? { content, attachmentIds: uploaded.map(attachment => attachment.id) }
+            : { content }),
+          credentials: "include",
+        }
+      );
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to send message");
+      }
+      return res.json();
     },
-    onMutate: async (content) => {
+    onMutate: async ({ content }) => {
       if (!user) return;
 
       const optimisticMessage: Message = {
@@ -258,6 +339,13 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
       setOptimisticMessages(prev => [...prev, optimisticMessage]);
       return { optimisticMessage };
     },
+    onSuccess: () => {
+      setPendingFiles([]);
+      invalidateMessages();
+      if (!ticketId) {
+        queryClient.invalidateQueries({ queryKey: ['/api/direct-messages'], exact: true });
+      }
+    },
     onError: (error) => {
       setOptimisticMessages([]);
       toast({
@@ -271,11 +359,130 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
     }
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Senders may edit or delete their messages for a server-configured time after sending
+  const { data: editWindow } = useQuery<{ minutes: number }>({
+    queryKey: ['/api/messages/edit-window'],
+    staleTime: Infinity,
+    enabled: !!user && !readonly
+  });
+
+  // Only ticket messages support editing; direct messages are sent as-is
+  const canChangeMessage = (message: Message) =>
+    !readonly &&
+    !!ticketId &&
+    !!editWindow &&
+    message.sender.id === user?.id &&
+    !message.deleted_at &&
+    message.status !== 'sending' &&
+    Date.now() - new Date(message.sent_at).getTime() < editWindow.minutes * 60 * 1000;
+
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: number; content: string }) => {
+      const res = await fetch(`/api/messages/${messageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to edit message");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      setEditingMessageId(null);
+      invalidateMessages();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message
+      });
+    }
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async (messageId: number) => {
+      const res = await fetch(`/api/messages/${messageId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to delete message");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateMessages();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message
+      });
+    }
+  });
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.content);
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || readonly || !user || sendMessageMutation.isPending) return;
-    sendMessageMutation.mutate(newMessage.trim());
+    if (!editingMessageId || !editContent.trim()) return;
+    editMessageMutation.mutate({ messageId: editingMessageId, content: editContent.trim() });
+  };
+
+  const isStaff = user?.role === 'business' || user?.role === 'employee';
+
+  // Colleagues with this ticket open; we show up as composing while we have a draft
+  const viewers = useTicketViewers(ticketId, !!newMessage.trim());
+
+  // When the current draft was started, to spot replies that landed while writing it
+  const draftStartedAtRef = useRef<number | null>(null);
+  const [conflictingRepliers, setConflictingRepliers] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!newMessage.trim()) {
+      draftStartedAtRef.current = null;
+    } else if (draftStartedAtRef.current === null) {
+      draftStartedAtRef.current = Date.now();
+    }
+  }, [newMessage]);
+
+  const sendDraft = () => {
+    sendMessageMutation.mutate({ content: newMessage.trim(), files: pendingFiles });
     setNewMessage("");
+    stopTyping();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!newMessage.trim() && pendingFiles.length === 0) || readonly || !user || sendMessageMutation.isPending) return;
+
+    // Warn staff if a colleague answered the customer while this draft was being written
+    const draftStartedAt = draftStartedAtRef.current;
+    if (isStaff && ticketId && draftStartedAt) {
+      const repliers = messages
+        .filter(message =>
+          message.sender.id !== user.id &&
+          message.sender.role !== 'customer' &&
+          new Date(message.created_at).getTime() > draftStartedAt
+        )
+        .map(message => message.sender.username);
+
+      if (repliers.length > 0) {
+        setConflictingRepliers(Array.from(new Set(repliers)));
+        return;
+      }
+    }
+
+    sendDraft();
   };
 
   const allMessages = [...messages, ...optimisticMessages];
@@ -284,9 +491,11 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
     setNewMessage(template);
   };
 
+  const isWaitingForStaff = !readonly && chatType === 'ticket' && !!ticket && messages.length === 0 && user?.role === 'customer';
+
   return (
     <div className="flex flex-col h-full relative">
-      {!readonly && chatType === 'ticket' && ticket && messages.length === 0 && user?.role === 'customer' && (
+      {isWaitingForStaff && (
         <>
           <div className="bg-blue-50 text-blue-700 px-4 py-2 text-sm flex items-center gap-2 absolute top-0 left-0 right-0 z-10">
             <Megaphone className="h-4 w-4" />
@@ -295,7 +504,7 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
           <div className="flex-1 flex items-center justify-center p-4 text-muted-foreground text-center">
             <div>
               <Clock className="h-8 w-8 mx-auto mb-2 animate-pulse" />
-              <p>Waiting for a support representative to respond...</p>
+              <p>{typingLabel ?? "Waiting for a support representative to respond..."}</p>
               <p className="text-sm mt-1">We'll notify you when someone replies to your ticket.</p>
             </div>
           </div>
@@ -304,6 +513,14 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
 
       <ScrollArea className="flex-1 px-4">
         <div className="space-y-4 py-4">
+          {canLoadOlder && (
+            <div className="flex justify-center">
+              <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={loadingOlder}>
+                {loadingOlder && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load earlier messages
+              </Button>
+            </div>
+          )}
           <AnimatePresence initial={false}>
             {allMessages?.map((messageData) => (
               <motion.div
@@ -334,11 +551,78 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
                       !ticket.claimed_by_id
                     }
                   />
-                  <p className="text-sm whitespace-pre-wrap break-words">
-                    {messageData.content}
-                  </p>
+                  {messageData.deleted_at ? (
+                    <p className="text-sm italic opacity-70">This message was deleted</p>
+                  ) : editingMessageId === messageData.id ? (
+                    <form onSubmit={handleEditSubmit} className="space-y-2">
+                      <Input
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        className="text-foreground"
+                        autoFocus
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') setEditingMessageId(null);
+                        }}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setEditingMessageId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          type="submit"
+                          variant="secondary"
+                          size="sm"
+                          disabled={!editContent.trim() || editMessageMutation.isPending}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <>
+                      {messageData.content && (
+                        <p className="text-sm whitespace-pre-wrap break-words">
+                          {messageData.content}
+                        </p>
+                      )}
+                      <AttachmentList attachments={messageData.attachments || []} />
+                    </>
+                  )}
                   <div className="flex items-center justify-between mt-1 text-xs opacity-70">
-                    <span>{new Date(messageData.sent_at).toLocaleTimeString()}</span>
+                    <span className="flex items-center gap-2">
+                      {new Date(messageData.sent_at).toLocaleTimeString()}
+                      {(messageData.edited_at || messageData.deleted_at) && (
+                        isStaff && chatType === 'ticket' ? (
+                          <MessageEditHistory
+                            messageId={messageData.id}
+                            label={messageData.deleted_at ? "history" : "edited"}
+                          />
+                        ) : messageData.edited_at && !messageData.deleted_at ? (
+                          <span>edited</span>
+                        ) : null
+                      )}
+                      {canChangeMessage(messageData) && editingMessageId !== messageData.id && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => startEditing(messageData)}
+                            className="hover:opacity-100"
+                            aria-label="Edit message"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => deleteMessageMutation.mutate(messageData.id)}
+                            disabled={deleteMessageMutation.isPending}
+                            className="hover:opacity-100"
+                            aria-label="Delete message"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        </>
+                      )}
+                    </span>
                     {messageData.sender.id === user?.id && (
                       <span className="ml-2 flex items-center gap-1">
                         {messageData.status === 'sending' ? (
@@ -372,15 +656,52 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
         </div>
       </ScrollArea>
 
-      {!readonly && (
-        <div className="border-t p-4 bg-background mt-auto">
+      {typingLabel && !isWaitingForStaff && (
+        <p className="px-4 pb-1 text-xs text-muted-foreground animate-pulse">
+          {typingLabel}
+        </p>
+      )}
+
+      {!readonly && ticket?.closed_at && (
+        <p className="border-t p-4 text-sm text-center text-muted-foreground">
+          This ticket was closed on {new Date(ticket.closed_at).toLocaleDateString()} and no longer accepts messages.
+        </p>
+      )}
+
+      {!readonly && !ticket?.closed_at && (
+        <div className="border-t p-4 bg-background mt-auto space-y-2">
+          {isStaff && <ViewerNotice viewers={viewers} />}
+          <PendingAttachments files={pendingFiles} onChange={setPendingFiles} />
           <form onSubmit={handleSubmit} className="flex gap-2">
-            {(user?.role === 'business' || user?.role === 'employee') && (
-              <QuickReplyTemplates onSelectTemplate={handleTemplateSelect} />
+            {/* Employees pick templates per business, which only a ticket tells us */}
+            {isStaff && (ticket || user?.role === 'business') && (
+              <QuickReplyTemplates
+                onSelectTemplate={handleTemplateSelect}
+                ticketId={ticketId}
+                businessProfileId={ticket?.business_profile_id}
+              />
+            )}
+            {isStaff && ticketId && ticket && (
+              <TicketMacros ticketId={ticketId} businessProfileId={ticket.business_profile_id} />
+            )}
+            {ticketId && (
+              <AttachmentPicker
+                files={pendingFiles}
+                onChange={setPendingFiles}
+                disabled={!user || sendMessageMutation.isPending}
+                uploading={sendMessageMutation.isPending && pendingFiles.length > 0}
+              />
             )}
             <Input
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                if (e.target.value.trim()) {
+                  notifyTyping();
+                } else {
+                  stopTyping();
+                }
+              }}
               placeholder={
                 user && user.id ? "Type your message..." : "Connecting..."
               }
@@ -389,7 +710,7 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
             />
             <Button
               type="submit"
-              disabled={!newMessage.trim() || !user || sendMessageMutation.isPending}
+              disabled={(!newMessage.trim() && pendingFiles.length === 0) || !user || sendMessageMutation.isPending}
               className="relative"
             >
               {sendMessageMutation.isPending ? (
@@ -401,6 +722,37 @@ export default function TicketChat({ ticketId, directMessageUserId, chatType = '
           </form>
         </div>
       )}
+
+      <AlertDialog
+        open={conflictingRepliers.length > 0}
+        onOpenChange={(open) => {
+          if (open) return;
+          // The agent has now seen the other reply; only warn about newer ones
+          draftStartedAtRef.current = Date.now();
+          setConflictingRepliers([]);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Someone else already replied</AlertDialogTitle>
+            <AlertDialogDescription>
+              {conflictingRepliers.join(", ")} replied to this ticket after you started typing.
+              Review their message before sending yours?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Review</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setConflictingRepliers([]);
+                sendDraft();
+              }}
+            >
+              Send anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
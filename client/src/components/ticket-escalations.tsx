@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp } from "lucide-react";
+
+type EscalationLevel = 'none' | 'low' | 'medium' | 'high';
+
+interface UserSummary {
+  id: number;
+  username: string;
+}
+
+interface Escalation {
+  id: number;
+  from_level: EscalationLevel;
+  to_level: EscalationLevel;
+  reason: string;
+  created_at: string;
+  escalated_by: UserSummary;
+  from_assignee: UserSummary | null;
+  to_assignee: UserSummary | null;
+}
+
+interface TicketEscalationsProps {
+  ticketId: number;
+  readonly?: boolean;
+}
+
+const LEVEL_STYLES: Record<EscalationLevel, string> = {
+  none: 'border-gray-400 text-gray-500',
+  low: 'border-yellow-500 text-yellow-500',
+  medium: 'border-orange-500 text-orange-500',
+  high: 'border-red-500 text-red-500',
+};
+
+export default function TicketEscalations({ ticketId, readonly = false }: TicketEscalationsProps) {
+  const [reason, setReason] = useState("");
+  const [assigneeId, setAssigneeId] = useState<string>("current");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: escalations = [] } = useQuery<Escalation[]>({
+    queryKey: [`/api/tickets/${ticketId}/escalations`],
+  });
+
+  const { data: assignees = [] } = useQuery<UserSummary[]>({
+    queryKey: [`/api/tickets/${ticketId}/assignees`],
+    enabled: !readonly,
+  });
+
+  const currentLevel: EscalationLevel = escalations.length > 0
+    ? escalations[escalations.length - 1].to_level
+    : 'none';
+
+  const changeEscalation = useMutation({
+    mutationFn: async (action: 'escalate' | 'de-escalate') => {
+      const res = await fetch(`/api/tickets/${ticketId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reason,
+          assigneeId: assigneeId === "current" ? undefined : Number(assigneeId),
+        }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || `Failed to ${action} ticket`);
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/escalations`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      setReason("");
+      setAssigneeId("current");
+      toast({
+        title: "Success",
+        description: "Escalation updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm">Escalation</h3>
+        <Badge variant="outline" className={`capitalize ${LEVEL_STYLES[currentLevel]}`}>
+          {currentLevel === 'none' ? 'Not escalated' : currentLevel}
+        </Badge>
+      </div>
+
+      <ol className="relative border-l ml-2 space-y-3">
+        {escalations.map((escalation) => (
+          <li key={escalation.id} className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+            <div className="flex items-center gap-2 text-xs">
+              <span className="capitalize">{escalation.from_level}</span>
+              <span>→</span>
+              <span className="capitalize font-medium">{escalation.to_level}</span>
+              <span className="text-muted-foreground">
+                by {escalation.escalated_by.username} · {new Date(escalation.created_at).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap mt-1">{escalation.reason}</p>
+            {escalation.to_assignee && escalation.to_assignee.id !== escalation.from_assignee?.id && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Reassigned {escalation.from_assignee ? `from ${escalation.from_assignee.username} ` : ''}
+                to {escalation.to_assignee.username}
+              </p>
+            )}
+          </li>
+        ))}
+        {escalations.length === 0 && (
+          <li className="ml-4 text-sm text-muted-foreground py-2">
+            This ticket has never been escalated
+          </li>
+        )}
+      </ol>
+
+      {!readonly && (
+        <div className="space-y-2 pt-2">
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this ticket moving?"
+            className="min-h-[60px]"
+          />
+          <div className="flex gap-2">
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Assignee" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Keep current assignee</SelectItem>
+                {assignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id.toString()}>
+                    {assignee.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => changeEscalation.mutate('de-escalate')}
+              disabled={changeEscalation.isPending || !reason.trim() || currentLevel === 'none'}
+            >
+              <ArrowDown className="mr-1 h-4 w-4" />
+              De-escalate
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => changeEscalation.mutate('escalate')}
+              disabled={changeEscalation.isPending || !reason.trim() || currentLevel === 'high'}
+            >
+              <ArrowUp className="mr-1 h-4 w-4" />
+              Escalate
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,11 @@ import {
 import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import {
+  AttachmentPicker,
+  PendingAttachments,
+  uploadAttachment,
+} from "@/components/message-attachments";
 
 interface Business {
   id: number;
@@ -57,6 +62,7 @@ export default function TicketForm({ onSuccess }: TicketFormProps) {
   const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<TicketFormData>();
   const [open, setOpen] = useState(false);
   const [selectedBusinessId, setSelectedBusinessId] = useState<number | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -67,10 +73,11 @@ export default function TicketForm({ onSuccess }: TicketFormProps) {
 
   const createTicket = useMutation({
     mutationFn: async (data: TicketFormData) => {
+      const uploaded = await Promise.all(files.map(uploadAttachment));
       const res = await fetch("/api/tickets", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, attachmentIds: uploaded.map((attachment) => attachment.id) }),
         credentials: "include",
       });
       if (!res.ok) {
@@ -87,6 +94,7 @@ export default function TicketForm({ onSuccess }: TicketFormProps) {
       });
       reset();
       setSelectedBusinessId(null);
+      setFiles([]);
       onSuccess?.();
     },
     onError: (error) => {
@@ -201,6 +209,19 @@ export default function TicketForm({ onSuccess }: TicketFormProps) {
         )}
       </div>
 
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <AttachmentPicker
+            files={files}
+            onChange={setFiles}
+            disabled={createTicket.isPending}
+            uploading={createTicket.isPending && files.length > 0}
+          />
+          <Label>Attachments</Label>
+        </div>
+        <PendingAttachments files={files} onChange={setFiles} />
+      </div>
+
       <Button 
         type="submit" 
         disabled={createTicket.isPending || !selectedBusinessId || isLoadingBusinesses} 
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useUser } from "@/hooks/use-user";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -32,6 +32,34 @@ import { useLocation } from "wouter";
 import type { Ticket } from "@db/schema";
 import TicketNotes from "./ticket-notes";
 import TicketFeedback from "./ticket-feedback";
+import TicketEscalations from "./ticket-escalations";
+import TicketAssignmentLog from "./ticket-assignment-log";
+import TicketAutomationLog from "./ticket-automation-log";
+import TicketTransfers from "./ticket-transfers";
+import { TicketAttachments } from "./message-attachments";
+import TicketViewers from "./ticket-viewers";
+import SlaBadge, { slaUrgency, type TicketSla } from "./sla-badge";
+
+const STATUS_OPTIONS = [
+  { value: "open", label: "Open" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "resolved", label: "Resolved" },
+] as const;
+
+// Mirrors the transitions enforced by PATCH /api/tickets/:id
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+  open: ['in_progress'],
+  in_progress: ['resolved'],
+  resolved: ['open'],
+};
+
+// Employee roles allowed to escalate tickets, mirroring server/permissions.ts
+const ESCALATION_ROLES = ['supervisor', 'admin'];
+
+interface BusinessConnection {
+  business: { id: number };
+  connection: { role: 'agent' | 'supervisor' | 'admin' };
+}
 
 interface TicketListProps {
   tickets: (Ticket & {
@@ -42,13 +70,18 @@ interface TicketListProps {
     unreadCount: number;
     claimedById?: number | null;
     claimedAt?: string | null;
+    closed_at?: string | null;
     category: string;
     priority: 'low' | 'medium' | 'high' | 'urgent';
+    sla?: TicketSla | null;
+    matchesSkills?: boolean;
   })[];
   isBusiness?: boolean;
   isEmployee?: boolean;
   userId?: number;
   readonly?: boolean;
+  // A ticket picked elsewhere, such as in search results, to open here. A new object reopens it.
+  openTicket?: { id: number } | null;
 }
 
 export default function TicketList({
@@ -56,15 +89,32 @@ export default function TicketList({
   isBusiness = false,
   isEmployee = false,
   userId,
-  readonly = false
+  readonly = false,
+  openTicket
 }: TicketListProps) {
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
+  const [selectedTicket, setSelectedTicket] = useState<TicketListProps['tickets'][number] | null>(null);
+
+  useEffect(() => {
+    const ticket = openTicket && tickets.find((t) => t.id === openTicket.id);
+    if (ticket) setSelectedTicket(ticket);
+  }, [openTicket]);
   const [viewType, setViewType] = useState<'active' | 'my-tickets' | 'history'>('active');
+  const [sortBy, setSortBy] = useState<'default' | 'urgency'>('default');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Filter tickets based on view type and claim status
   const { user } = useUser();
+
+  // The employee's role in each business decides which ticket actions are offered
+  const { data: businessConnections = [] } = useQuery<BusinessConnection[]>({
+    queryKey: ['/api/employees/active-businesses'],
+    enabled: isEmployee,
+  });
+
+  const canEscalate = (ticket: TicketListProps['tickets'][number]) => isBusiness ||
+    businessConnections.some((conn) =>
+      conn.business.id === ticket.business.id && ESCALATION_ROLES.includes(conn.connection.role));
   
   const filterTickets = (tickets: TicketListProps['tickets'], view: 'active' | 'my-tickets' | 'history') => {
     if (!tickets) return [];
@@ -96,16 +146,19 @@ export default function TicketList({
   };
 
   const sortTickets = (tickets: TicketListProps['tickets']) => {
-    return [...tickets].sort((a, b) => {
-      // First, separate resolved and unresolved tickets
-      if (a.status === 'resolved' && b.status !== 'resolved') return 1;
-      if (a.status !== 'resolved' && b.status === 'resolved') return -1;
+    if (sortBy !== 'urgency') {
+      // Surface unclaimed tickets matching the employee's skills first
+      return isEmployee && viewType === 'active'
+        ? [...tickets].sort((a, b) => Number(!!b.matchesSkills) - Number(!!a.matchesSkills))
+        : tickets;
+    }
 
-      // Then sort by date
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
+    // Breached SLAs first, then at risk, then whatever is due soonest
+    return [...tickets].sort((a, b) => slaUrgency(a.sla) - slaUrgency(b.sla));
   };
 
+  const visibleTickets = sortTickets(filterTickets(tickets, viewType));
+
   const [, setLocation] = useLocation();
   
   const handleMessageClick = (ticketId: number) => {
@@ -162,6 +215,42 @@ export default function TicketList({
     },
   });
 
+  const updateTicket = useMutation({
+    mutationFn: async ({ ticketId, ...updates }: {
+      ticketId: number;
+      status?: string;
+      priority?: string;
+      category?: string;
+    }) => {
+      const res = await fetch(`/api/tickets/${ticketId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update ticket");
+      }
+      return res.json();
+    },
+    onSuccess: (updatedTicket) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      setSelectedTicket((current) => current && { ...current, ...updatedTicket });
+      toast({
+        title: "Success",
+        description: "Ticket updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
   // Animation variants for the ticket cards
   const ticketVariants = {
     initial: {
@@ -203,7 +292,21 @@ export default function TicketList({
   return (
     <div>
       <div className="sticky top-0 z-10 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b">
-        <div className="flex items-center justify-end h-12 px-4">
+        <div className="flex items-center justify-end gap-2 h-12 px-4">
+          {viewType !== 'history' && (
+            <Select
+              value={sortBy}
+              onValueChange={(value: 'default' | 'urgency') => setSortBy(value)}
+            >
+              <SelectTrigger className="w-[140px] h-8 text-xs">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default order</SelectItem>
+                <SelectItem value="urgency">SLA urgency</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
           <Select
             value={viewType}
             onValueChange={(value: 'active' | 'my-tickets' | 'history') => setViewType(value)}
@@ -222,7 +325,7 @@ export default function TicketList({
 
       <div className="px-4 py-2 space-y-2">
         <AnimatePresence mode="popLayout">
-          {filterTickets(tickets, viewType).map((ticket) => (
+          {visibleTickets.map((ticket) => (
             <motion.div
               key={ticket.id}
               layout
@@ -259,6 +362,7 @@ export default function TicketList({
                           <span>{new Date(ticket.createdAt).toLocaleDateString()}</span>
                           <Badge variant={ticket.status === "resolved" ? "secondary" : "default"}>
                             {ticket.status === "in_progress" ? "In Progress" :
+                             ticket.closed_at ? "Closed" :
                              ticket.status === "resolved" ? "Resolved" : "Open"}
                           </Badge>
                         </div>
@@ -274,6 +378,12 @@ export default function TicketList({
                           }`}>
                             {ticket.priority}
                           </Badge>
+                          {ticket.status !== 'resolved' && <SlaBadge sla={ticket.sla} />}
+                          {isEmployee && ticket.matchesSkills && !ticket.claimedById && (
+                            <Badge variant="secondary" className="text-xs">
+                              Matches your skills
+                            </Badge>
+                          )}
                           {ticket.claimedById && (
                             <Badge variant="outline" className="text-xs">
                               {ticket.claimedById === userId ? 'Claimed by you' : 'Claimed'}
@@ -345,7 +455,7 @@ export default function TicketList({
             </motion.div>
           ))}
         </AnimatePresence>
-        {filterTickets(tickets, viewType).length === 0 && (
+        {visibleTickets.length === 0 && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -383,6 +493,8 @@ export default function TicketList({
 
               <div className="mt-4">
                 <div className="space-y-4">
+                  {(isBusiness || isEmployee) && <TicketViewers ticketId={selectedTicket.id} />}
+
                   <div>
                     <h3 className="text-sm font-medium mb-2">Description</h3>
                     <div className="prose prose-sm max-w-none bg-muted p-3 rounded-lg">
@@ -390,44 +502,67 @@ export default function TicketList({
                     </div>
                   </div>
 
-                  {isEmployee && (
+                  <TicketAttachments ticketId={selectedTicket.id} />
+
+                  {(isBusiness || isEmployee) && !readonly && !selectedTicket.closed_at && (
                     <div className="space-y-2">
                       <h3 className="text-sm font-medium">Actions</h3>
                       <div className="flex gap-2">
                         <Select
-                          value={selectedTicket?.status}
-                          onValueChange={async (status) => {
-                            try {
-                              const res = await fetch(`/api/tickets/${selectedTicket.id}`, {
-                                method: 'PATCH',
-                                headers: {
-                                  'Content-Type': 'application/json'
-                                },
-                                body: JSON.stringify({ status }),
-                                credentials: 'include'
-                              });
-                              if (!res.ok) throw new Error(await res.text());
-                              queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
-                              toast({
-                                title: "Success",
-                                description: "Ticket status updated successfully",
-                              });
-                            } catch (error) {
-                              toast({
-                                variant: "destructive",
-                                title: "Error",
-                                description: (error as Error).message,
-                              });
-                            }
-                          }}
+                          value={selectedTicket.status}
+                          onValueChange={(status) => updateTicket.mutate({ ticketId: selectedTicket.id, status })}
+                          disabled={updateTicket.isPending}
                         >
                           <SelectTrigger className="w-[140px]">
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="open">Open</SelectItem>
-                            <SelectItem value="in_progress">In Progress</SelectItem>
-                            <SelectItem value="resolved">Resolved</SelectItem>
+                            {STATUS_OPTIONS.map((option) => (
+                              <SelectItem
+                                key={option.value}
+                                value={option.value}
+                                disabled={
+                                  option.value !== selectedTicket.status &&
+                                  !STATUS_TRANSITIONS[selectedTicket.status].includes(option.value)
+                                }
+                              >
+                                {option.value === 'open' && selectedTicket.status === 'resolved'
+                                  ? 'Reopen'
+                                  : option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={selectedTicket.priority}
+                          onValueChange={(priority) => updateTicket.mutate({ ticketId: selectedTicket.id, priority })}
+                          disabled={updateTicket.isPending}
+                        >
+                          <SelectTrigger className="w-[120px] capitalize">
+                            <SelectValue placeholder="Priority" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {['low', 'medium', 'high', 'urgent'].map((priority) => (
+                              <SelectItem key={priority} value={priority} className="capitalize">
+                                {priority}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={selectedTicket.category}
+                          onValueChange={(category) => updateTicket.mutate({ ticketId: selectedTicket.id, category })}
+                          disabled={updateTicket.isPending}
+                        >
+                          <SelectTrigger className="w-[160px] capitalize">
+                            <SelectValue placeholder="Category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {['technical', 'billing', 'feature_request', 'general_inquiry', 'bug_report'].map((category) => (
+                              <SelectItem key={category} value={category} className="capitalize">
+                                {category.replace(/_/g, ' ')}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -442,6 +577,29 @@ export default function TicketList({
                     </div>
                   )}
 
+                  {(isBusiness || isEmployee) && (
+                    <TicketAssignmentLog ticketId={selectedTicket.id} />
+                  )}
+
+                  {(isBusiness || isEmployee) && (
+                    <TicketAutomationLog ticketId={selectedTicket.id} />
+                  )}
+
+                  {(isBusiness || isEmployee) && (
+                    <div className="rounded-md border p-4">
+                      <TicketTransfers ticketId={selectedTicket.id} readonly={readonly} />
+                    </div>
+                  )}
+
+                  {(isBusiness || isEmployee) && (
+                    <div className="rounded-md border p-4">
+                      <TicketEscalations
+                        ticketId={selectedTicket.id}
+                        readonly={readonly || selectedTicket.status === "resolved" || !canEscalate(selectedTicket)}
+                      />
+                    </div>
+                  )}
+
                   {!isBusiness && !isEmployee && selectedTicket.status === "resolved" && (
                     <div className="space-y-2">
                       <h3 className="text-sm font-medium">Feedback</h3>
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRight, Loader2, Settings2, Zap } from "lucide-react";
+import MacroManager, { formatFieldValue, macrosUrl, type Macro, type MacroList } from "./macro-manager";
+
+interface MacroPlan {
+  reply: string | null;
+  changes: { field: string; from: string; to: string }[];
+  note: string | null;
+  error?: string;
+}
+
+interface TicketMacrosProps {
+  ticketId: number;
+  businessProfileId?: number;
+}
+
+// Pick a macro, check what it will do to this ticket, then run it
+export function TicketMacros({ ticketId, businessProfileId }: TicketMacrosProps) {
+  const [selectedMacro, setSelectedMacro] = useState<Macro | null>(null);
+  const [managerOpen, setManagerOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<MacroList>({
+    queryKey: [macrosUrl(businessProfileId)],
+  });
+
+  const macros = data?.macros ?? [];
+
+  const { data: plan, isLoading: planLoading } = useQuery<MacroPlan>({
+    queryKey: [`/api/tickets/${ticketId}/macros/${selectedMacro?.id}/preview`],
+    queryFn: async () => {
+      const res = await fetch(`/api/tickets/${ticketId}/macros/${selectedMacro!.id}/preview`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to preview macro");
+      }
+      return res.json();
+    },
+    enabled: !!selectedMacro,
+    staleTime: 0,
+  });
+
+  const applyMacro = useMutation({
+    mutationFn: async (macroId: number) => {
+      const res = await fetch(`/api/tickets/${ticketId}/macros/${macroId}/apply`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to apply macro");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets/claimed'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/notes`] });
+      toast({
+        title: "Success",
+        description: `Ran "${selectedMacro?.title}"`,
+      });
+      setSelectedMacro(null);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  if (macros.length === 0 && !data?.canManage) return null;
+
+  const isEmptyPlan = !!plan && !plan.reply && !plan.note && plan.changes.length === 0;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Macros"
+          >
+            <Zap className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64 max-h-96 overflow-y-auto">
+          <DropdownMenuLabel>Macros</DropdownMenuLabel>
+          {macros.length === 0 && (
+            <p className="px-2 py-1 text-sm text-muted-foreground">No macros yet</p>
+          )}
+          {macros.map((macro) => (
+            <DropdownMenuItem
+              key={macro.id}
+              onClick={() => setSelectedMacro(macro)}
+              className="cursor-pointer"
+            >
+              {macro.title}
+            </DropdownMenuItem>
+          ))}
+          {data?.canManage && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setManagerOpen(true)} className="cursor-pointer">
+                <Settings2 className="h-4 w-4 mr-2" />
+                Manage macros
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={!!selectedMacro} onOpenChange={(open) => !open && setSelectedMacro(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Run "{selectedMacro?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All of the following will be applied to this ticket together.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {planLoading || !plan ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-3 text-sm">
+              {plan.error && (
+                <p className="rounded-md bg-destructive/10 px-3 py-2 text-destructive">{plan.error}</p>
+              )}
+              {plan.reply && (
+                <div>
+                  <p className="font-medium mb-1">Reply to customer</p>
+                  <p className="rounded-md bg-muted px-3 py-2 whitespace-pre-wrap">{plan.reply}</p>
+                </div>
+              )}
+              {plan.changes.length > 0 && (
+                <div>
+                  <p className="font-medium mb-1">Ticket changes</p>
+                  <ul className="space-y-1">
+                    {plan.changes.map((change) => (
+                      <li key={change.field} className="flex items-center gap-2 capitalize">
+                        <span className="text-muted-foreground">{change.field}:</span>
+                        {formatFieldValue(change.from)}
+                        <ArrowRight className="h-3 w-3" />
+                        {formatFieldValue(change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {plan.note && (
+                <div>
+                  <p className="font-medium mb-1">Internal note</p>
+                  <p className="rounded-md bg-amber-50 px-3 py-2 whitespace-pre-wrap">{plan.note}</p>
+                </div>
+              )}
+              {isEmptyPlan && (
+                <p className="text-muted-foreground">This ticket already matches the macro; nothing would change.</p>
+              )}
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!plan || !!plan.error || isEmptyPlan || applyMacro.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (selectedMacro) applyMacro.mutate(selectedMacro.id);
+              }}
+            >
+              {applyMacro.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Run macro
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {data?.canManage && (
+        <MacroManager
+          open={managerOpen}
+          onOpenChange={setManagerOpen}
+          businessProfileId={businessProfileId}
+          macros={macros}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+
+type MatchType = 'ticket' | 'message' | 'note';
+
+export interface SearchResult {
+  type: MatchType;
+  id: number;
+  ticket_id: number;
+  matched_at: string;
+  snippet: string;
+  ticket_title: string;
+  status: string;
+  category: string;
+  priority: string;
+  business_profile_id: number;
+  assignee_id: number | null;
+  assignee_username: string | null;
+}
+
+interface EmployeeData {
+  employee: { id: number; username: string };
+}
+
+interface TicketSearchProps {
+  onSelectTicket: (result: SearchResult) => void;
+  // Owners can filter by any of their employees, employees by themselves
+  isBusiness?: boolean;
+  isEmployee?: boolean;
+  userId?: number;
+  // Limits an employee's search to the business they're working with
+  businessProfileId?: string;
+}
+
+const MATCH_LABELS: Record<MatchType, string> = {
+  ticket: "Ticket",
+  message: "Message",
+  note: "Internal note",
+};
+
+const STATUSES = [
+  { value: "all", label: "All Statuses" },
+  { value: "open", label: "Open" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "resolved", label: "Resolved" },
+];
+
+const CATEGORIES = [
+  { value: "all", label: "All Categories" },
+  { value: "technical", label: "Technical Issue" },
+  { value: "billing", label: "Billing Problem" },
+  { value: "feature_request", label: "Feature Request" },
+  { value: "general_inquiry", label: "General Inquiry" },
+  { value: "bug_report", label: "Bug Report" },
+];
+
+const PRIORITIES = [
+  { value: "all", label: "All Priorities" },
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+  { value: "urgent", label: "Urgent" },
+];
+
+// Matched words arrive wrapped in <mark> tags. Split on them rather than
+// injecting the snippet as HTML, since the rest of it is user-written text.
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded-sm px-0.5">{part}</mark> : part
+      )}
+    </p>
+  );
+}
+
+export default function TicketSearch({
+  onSelectTicket,
+  isBusiness = false,
+  isEmployee = false,
+  userId,
+  businessProfileId,
+}: TicketSearchProps) {
+  const [text, setText] = useState("");
+  const [submittedText, setSubmittedText] = useState("");
+  const [status, setStatus] = useState("all");
+  const [category, setCategory] = useState("all");
+  const [priority, setPriority] = useState("all");
+  const [assigneeId, setAssigneeId] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: employees = [] } = useQuery<EmployeeData[]>({
+    queryKey: ['/api/businesses/employees'],
+    enabled: isBusiness,
+  });
+
+  const params = new URLSearchParams({ q: submittedText, status, category, priority, assigneeId });
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  if (businessProfileId) params.set("businessProfileId", businessProfileId);
+
+  const { data, isFetching, error } = useQuery<{ results: SearchResult[] }>({
+    queryKey: [`/api/search?${params}`],
+    enabled: submittedText !== "",
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setSubmittedText(text.trim());
+  };
+
+  const clearSearch = () => {
+    setText("");
+    setSubmittedText("");
+  };
+
+  const results = data?.results ?? [];
+  const isStaff = isBusiness || isEmployee;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          placeholder="Search tickets, messages and notes..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={200}
+        />
+        <Button type="submit" disabled={!text.trim()} className="flex items-center gap-2">
+          <Search className="h-4 w-4" />
+          Search
+        </Button>
+        {submittedText && (
+          <Button type="button" variant="ghost" onClick={clearSearch} aria-label="Clear search">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </form>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUSES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATEGORIES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priority} onValueChange={setPriority}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRIORITIES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isStaff && (
+          <Select value={assigneeId} onValueChange={setAssigneeId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any Assignee</SelectItem>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {isEmployee && userId && (
+                <SelectItem value={String(userId)}>Assigned to me</SelectItem>
+              )}
+              {employees.map(({ employee }) => (
+                <SelectItem key={employee.id} value={String(employee.id)}>
+                  {employee.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center gap-2">
+          <Label htmlFor="search-from" className="text-xs text-muted-foreground">From</Label>
+          <Input id="search-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="search-to" className="text-xs text-muted-foreground">To</Label>
+          <Input id="search-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {submittedText && (
+        <div className="border rounded-lg divide-y">
+          {isFetching && results.length === 0 && (
+            <p className="p-4 text-sm text-center text-muted-foreground">Searching...</p>
+          )}
+          {error && (
+            <p className="p-4 text-sm text-center text-destructive">{(error as Error).message}</p>
+          )}
+          {!isFetching && !error && results.length === 0 && (
+            <p className="p-4 text-sm text-center text-muted-foreground">
+              Nothing matches "{submittedText}"
+            </p>
+          )}
+          {results.map((result) => (
+            <button
+              key={`${result.type}-${result.id}`}
+              type="button"
+              onClick={() => onSelectTicket(result)}
+              className="w-full text-left p-4 space-y-1 hover:bg-muted/50"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={result.type === "note" ? "secondary" : "outline"}>
+                  {MATCH_LABELS[result.type]}
+                </Badge>
+                <span className="font-medium">#{result.ticket_id} {result.ticket_title}</span>
+                <Badge variant="outline">{result.status.replace("_", " ")}</Badge>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {new Date(result.matched_at).toLocaleString()}
+                  {isStaff && ` · ${result.assignee_username ?? "Unassigned"}`}
+                </span>
+              </div>
+              <Snippet text={result.snippet} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
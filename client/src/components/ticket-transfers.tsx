@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePresence } from "@/hooks/use-presence";
+import PresenceDot from "./presence-dot";
+import { ArrowRight, Send } from "lucide-react";
+
+interface UserSummary {
+  id: number;
+  username: string;
+}
+
+interface Transfer {
+  id: number;
+  note: string;
+  created_at: string;
+  transferred_by: UserSummary;
+  from_assignee: UserSummary | null;
+  to_assignee: UserSummary;
+}
+
+interface TransferData {
+  currentAssignee: UserSummary | null;
+  canTransfer: boolean;
+  transfers: Transfer[];
+}
+
+interface TicketTransfersProps {
+  ticketId: number;
+  readonly?: boolean;
+}
+
+export default function TicketTransfers({ ticketId, readonly = false }: TicketTransfersProps) {
+  const [assigneeId, setAssigneeId] = useState<string>("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<TransferData>({
+    queryKey: [`/api/tickets/${ticketId}/transfers`],
+  });
+
+  const canTransfer = !readonly && !!data?.canTransfer;
+
+  // Show who is around before handing the ticket over
+  const getPresence = usePresence();
+  const { data: assignees = [] } = useQuery<UserSummary[]>({
+    queryKey: [`/api/tickets/${ticketId}/assignees`],
+    enabled: canTransfer,
+  });
+
+  const transferTicket = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/tickets/${ticketId}/transfer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assigneeId: Number(assigneeId), note }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to transfer ticket");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/transfers`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      setAssigneeId("");
+      setNote("");
+      toast({
+        title: "Success",
+        description: "Ticket transferred successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  if (!data) return null;
+
+  const { currentAssignee, transfers } = data;
+
+  // Everyone who has held the ticket, oldest first
+  const owners: UserSummary[] = transfers.length > 0
+    ? [
+      ...(transfers[0].from_assignee ? [transfers[0].from_assignee] : []),
+      ...transfers.map((transfer) => transfer.to_assignee),
+    ]
+    : [];
+  if (currentAssignee && owners[owners.length - 1]?.id !== currentAssignee.id) {
+    owners.push(currentAssignee);
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold text-sm">Ownership</h3>
+
+      {owners.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-1">
+          {owners.map((owner, index) => (
+            <div key={`${owner.id}-${index}`} className="flex items-center gap-1">
+              {index > 0 && <ArrowRight className="h-3 w-3 text-muted-foreground" />}
+              <Badge variant={index === owners.length - 1 && currentAssignee ? "default" : "outline"}>
+                {owner.username}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">This ticket is not assigned to anyone</p>
+      )}
+
+      {transfers.length > 0 && (
+        <ul className="space-y-2">
+          {transfers.map((transfer) => (
+            <li key={transfer.id} className="text-sm">
+              <p className="text-xs text-muted-foreground">
+                {transfer.transferred_by.username} handed off
+                {transfer.from_assignee ? ` from ${transfer.from_assignee.username}` : ''} to {transfer.to_assignee.username}
+                {' · '}{new Date(transfer.created_at).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap">{transfer.note}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canTransfer && (
+        <div className="space-y-2 pt-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Handoff note: what has been done and what the next owner should know"
+            className="min-h-[60px]"
+          />
+          <div className="flex gap-2">
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Transfer to..." />
+              </SelectTrigger>
+              <SelectContent>
+                {assignees
+                  .filter((assignee) => assignee.id !== currentAssignee?.id)
+                  .map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id.toString()}>
+                      <span className="flex items-center gap-2">
+                        <PresenceDot status={getPresence(assignee.id)} />
+                        {assignee.username}
+                      </span>
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={() => transferTicket.mutate()}
+              disabled={transferTicket.isPending || !assigneeId || !note.trim()}
+            >
+              <Send className="mr-1 h-4 w-4" />
+              Transfer
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
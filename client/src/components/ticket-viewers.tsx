@@ -0,0 +1,33 @@
+import { Eye, PenLine } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTicketViewers, type TicketViewer } from "@/hooks/use-ticket-viewers";
+
+// Who else has the ticket open, with anyone drafting a reply called out
+export function ViewerNotice({ viewers, className }: { viewers: TicketViewer[]; className?: string }) {
+  if (viewers.length === 0) return null;
+
+  const composing = viewers.filter((viewer) => viewer.composing);
+  const watching = viewers.filter((viewer) => !viewer.composing);
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-x-4 gap-y-1 rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-800", className)}>
+      {composing.length > 0 && (
+        <span className="flex items-center gap-1">
+          <PenLine className="h-3 w-3" />
+          {composing.map((viewer) => viewer.username).join(", ")} {composing.length === 1 ? "is" : "are"} writing a reply
+        </span>
+      )}
+      {watching.length > 0 && (
+        <span className="flex items-center gap-1">
+          <Eye className="h-3 w-3" />
+          Also viewing: {watching.map((viewer) => viewer.username).join(", ")}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function TicketViewers({ ticketId }: { ticketId: number }) {
+  const viewers = useTicketViewers(ticketId);
+  return <ViewerNotice viewers={viewers} />;
+}
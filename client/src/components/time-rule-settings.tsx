@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { TEMPLATE_PLACEHOLDERS } from "./reply-template-manager";
+
+type IdleAction = 'alert' | 'reopen';
+
+interface TimeRuleSettingsData {
+  auto_close_after_hours: number | null;
+  customer_reminder_after_hours: number | null;
+  customer_reminder_message: string | null;
+  agent_idle_after_hours: number | null;
+  agent_idle_action: IdleAction;
+}
+
+type HoursField = 'auto_close_after_hours' | 'customer_reminder_after_hours' | 'agent_idle_after_hours';
+
+const RULES: { field: HoursField; label: string; description: string; suggestedHours: number }[] = [
+  {
+    field: "auto_close_after_hours",
+    label: "Close resolved tickets",
+    description: "Closes a resolved ticket the customer hasn't replied to. Closed tickets can't be reopened or replied to.",
+    suggestedHours: 168,
+  },
+  {
+    field: "customer_reminder_after_hours",
+    label: "Remind silent customers",
+    description: "Sends the customer a reminder when they haven't answered the last reply on an open ticket.",
+    suggestedHours: 48,
+  },
+  {
+    field: "agent_idle_after_hours",
+    label: "Follow up on idle agents",
+    description: "Acts on a claimed ticket whose customer has been waiting on the assignee.",
+    suggestedHours: 24,
+  },
+];
+
+const DEFAULT_REMINDER =
+  "Hi {{customer.username}}, we haven't heard back from you about \"{{ticket.title}}\". Is there anything else we can help with?";
+
+export default function TimeRuleSettings() {
+  // Hours are kept as text while editing; an empty value means the rule is off
+  const [hours, setHours] = useState<Record<HoursField, string>>({
+    auto_close_after_hours: "",
+    customer_reminder_after_hours: "",
+    agent_idle_after_hours: "",
+  });
+  const [reminderMessage, setReminderMessage] = useState("");
+  const [idleAction, setIdleAction] = useState<IdleAction>("alert");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<TimeRuleSettingsData>({
+    queryKey: ['/api/time-rule-settings'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setHours({
+        auto_close_after_hours: settings.auto_close_after_hours ? String(settings.auto_close_after_hours) : "",
+        customer_reminder_after_hours: settings.customer_reminder_after_hours ? String(settings.customer_reminder_after_hours) : "",
+        agent_idle_after_hours: settings.agent_idle_after_hours ? String(settings.agent_idle_after_hours) : "",
+      });
+      setReminderMessage(settings.customer_reminder_message ?? "");
+      setIdleAction(settings.agent_idle_action);
+    }
+  }, [settings]);
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/time-rule-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          autoCloseAfterHours: hours.auto_close_after_hours ? Number(hours.auto_close_after_hours) : null,
+          customerReminderAfterHours: hours.customer_reminder_after_hours ? Number(hours.customer_reminder_after_hours) : null,
+          customerReminderMessage: reminderMessage,
+          agentIdleAfterHours: hours.agent_idle_after_hours ? Number(hours.agent_idle_after_hours) : null,
+          agentIdleAction: idleAction,
+        }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save time rules");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/time-rule-settings'] });
+      toast({
+        title: "Success",
+        description: "Time rules saved successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 border rounded-lg p-4">
+      <div>
+        <h3 className="text-sm font-medium">Time-based Rules</h3>
+        <p className="text-xs text-muted-foreground">
+          Checked in the background every few minutes.
+        </p>
+      </div>
+
+      {RULES.map((rule) => (
+        <div key={rule.field} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2 w-[220px]">
+              <Switch
+                id={`time-rule-${rule.field}`}
+                checked={!!hours[rule.field]}
+                onCheckedChange={(checked) => setHours({
+                  ...hours,
+                  [rule.field]: checked ? String(rule.suggestedHours) : "",
+                })}
+              />
+              <Label htmlFor={`time-rule-${rule.field}`}>{rule.label}</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">after</span>
+              <Input
+                type="number"
+                min={1}
+                value={hours[rule.field]}
+                onChange={(e) => setHours({ ...hours, [rule.field]: e.target.value })}
+                placeholder="Off"
+                className="w-[100px]"
+              />
+              <span className="text-sm text-muted-foreground">hours</span>
+            </div>
+            {rule.field === "agent_idle_after_hours" && (
+              <Select value={idleAction} onValueChange={(value: IdleAction) => setIdleAction(value)}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="alert">Alert the assignee</SelectItem>
+                  <SelectItem value="reopen">Return ticket to the queue</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">{rule.description}</p>
+          {rule.field === "customer_reminder_after_hours" && hours.customer_reminder_after_hours && (
+            <div className="space-y-1">
+              <Textarea
+                rows={2}
+                value={reminderMessage}
+                onChange={(e) => setReminderMessage(e.target.value)}
+                placeholder={DEFAULT_REMINDER}
+              />
+              <p className="text-xs text-muted-foreground">
+                Placeholders: {TEMPLATE_PLACEHOLDERS.join(", ")}
+              </p>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button onClick={() => saveSettings.mutate()} disabled={saveSettings.isPending}>
+        Save
+      </Button>
+    </div>
+  );
+}
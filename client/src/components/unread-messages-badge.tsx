@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+
+// Total unread ticket messages for the current user, shown on the Messages button
+export default function UnreadMessagesBadge() {
+  const { data } = useQuery<{ total: number }>({
+    queryKey: ['/api/messages/unread'],
+    refetchInterval: 30000,
+  });
+
+  if (!data?.total) return null;
+
+  return (
+    <Badge className="h-5 min-w-[1.25rem] justify-center rounded-full px-1.5 text-xs">
+      {data.total > 99 ? '99+' : data.total}
+    </Badge>
+  );
+}
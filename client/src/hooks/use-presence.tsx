@@ -0,0 +1,139 @@
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useUser } from '@/hooks/use-user';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+// No input for this long, or a hidden tab, counts as away
+const AWAY_AFTER = 5 * 60 * 1000;
+
+interface PresenceMeta {
+  user_id: number;
+  username: string;
+  status: Exclude<PresenceStatus, 'offline'>;
+}
+
+const PresenceContext = createContext<Map<number, PresenceStatus>>(new Map());
+
+// Whether the current user is at their desk, from tab visibility and recent input
+function useOwnStatus() {
+  const [status, setStatus] = useState<PresenceMeta['status']>('online');
+
+  useEffect(() => {
+    let idleTimer: ReturnType<typeof setTimeout>;
+
+    const markActive = () => {
+      clearTimeout(idleTimer);
+      if (document.visibilityState !== 'visible') {
+        setStatus('away');
+        return;
+      }
+      setStatus('online');
+      idleTimer = setTimeout(() => setStatus('away'), AWAY_AFTER);
+    };
+
+    const events = ['mousemove', 'keydown', 'pointerdown', 'visibilitychange'] as const;
+    events.forEach(event => document.addEventListener(event, markActive, { passive: true }));
+    markActive();
+
+    return () => {
+      clearTimeout(idleTimer);
+      events.forEach(event => document.removeEventListener(event, markActive));
+    };
+  }, []);
+
+  return status;
+}
+
+// Shares who is online among the staff of each business the current user belongs to.
+// One realtime presence channel per business; customers never join.
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { user } = useUser();
+  const ownStatus = useOwnStatus();
+  const [presence, setPresence] = useState<Map<number, PresenceStatus>>(new Map());
+  const channelsRef = useRef<RealtimeChannel[]>([]);
+  const ownStatusRef = useRef(ownStatus);
+  ownStatusRef.current = ownStatus;
+
+  const { data: connections = [] } = useQuery<{ business: { id: number } }[]>({
+    queryKey: ['/api/employees/active-businesses'],
+    enabled: user?.role === 'employee',
+  });
+
+  const { data: businessProfile } = useQuery<{ id: number }>({
+    queryKey: ['/api/business-profile'],
+    enabled: user?.role === 'business',
+  });
+
+  const businessIds = user?.role === 'business'
+    ? (businessProfile ? [businessProfile.id] : [])
+    : user?.role === 'employee'
+      ? connections.map(({ business }) => business.id)
+      : [];
+  const businessKey = businessIds.sort((a, b) => a - b).join(',');
+
+  useEffect(() => {
+    if (!user || !businessKey) return;
+
+    const ownMeta = (): PresenceMeta => ({
+      user_id: user.id,
+      username: user.username,
+      status: ownStatusRef.current
+    });
+
+    // Merge every channel's state; someone online anywhere counts as online
+    const sync = () => {
+      const next = new Map<number, PresenceStatus>();
+      channelsRef.current.forEach(channel => {
+        Object.values(channel.presenceState<PresenceMeta>()).flat().forEach(meta => {
+          if (next.get(meta.user_id) !== 'online') {
+            next.set(meta.user_id, meta.status);
+          }
+        });
+      });
+      setPresence(next);
+    };
+
+    channelsRef.current = businessKey.split(',').map(id => {
+      const channel = supabase
+        .channel(`presence:business:${id}`, { config: { presence: { key: String(user.id) } } })
+        .on('presence', { event: 'sync' }, sync);
+
+      channel.subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track(ownMeta());
+        }
+      });
+
+      return channel;
+    });
+
+    return () => {
+      channelsRef.current.forEach(channel => supabase.removeChannel(channel));
+      channelsRef.current = [];
+      setPresence(new Map());
+    };
+  }, [user, businessKey]);
+
+  // Republish our own status when it changes
+  useEffect(() => {
+    if (!user) return;
+    channelsRef.current.forEach(channel => {
+      channel.track({ user_id: user.id, username: user.username, status: ownStatus });
+    });
+  }, [ownStatus, user]);
+
+  return (
+    <PresenceContext.Provider value={presence}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+// Status lookup for colleagues; anyone not connected is offline
+export function usePresence() {
+  const presence = useContext(PresenceContext);
+  return (userId: number | string) => presence.get(Number(userId)) ?? 'offline';
+}
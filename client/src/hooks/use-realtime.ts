@@ -4,6 +4,7 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 
 interface Message {
+  id: number;
   content: string;
   sender_id: string;
   receiver_id?: string;
@@ -12,6 +13,16 @@ interface Message {
   created_at: string;
 }
 
+// Tell the server messages reached this client. Without ids, every message still waiting for the user.
+export function acknowledgeDelivered(messageIds?: number[]) {
+  fetch('/api/messages/delivered', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(messageIds ? { messageIds } : {}),
+    credentials: 'include',
+  }).catch(error => console.error('Error acknowledging messages:', error));
+}
+
 export function useRealtime(userId: string | undefined, role: string | undefined) {
   const [isConnected, setIsConnected] = useState(false);
   const queryClient = useQueryClient();
@@ -40,17 +51,55 @@ export function useRealtime(userId: string | undefined, role: string | undefined
             });
           }
 
-          // Handle direct messages
-          if (message.receiver_id === userId) {
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/direct-messages', message.sender_id]
+          // Let the sender know a live message reached this client
+          if (message.receiver_id === userId && message.status === 'sent') {
+            acknowledgeDelivered([message.id]);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `sender_id=eq.${userId}`
+        },
+        (payload) => {
+          const message = payload.new as Message;
+
+          // Refresh receipts on messages this user sent
+          if (message.ticket_id) {
+            queryClient.invalidateQueries({
+              queryKey: ['/api/tickets', message.ticket_id, 'messages']
             });
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'direct_messages',
+          filter: `receiver_id=eq.${userId}`
+        },
+        (payload) => {
+          const message = payload.new as Message;
+
+          // Direct messages live in their own table
+          queryClient.invalidateQueries({
+            queryKey: ['/api/direct-messages', String(message.sender_id)]
+          });
+          queryClient.invalidateQueries({ queryKey: ['/api/direct-messages'], exact: true });
+          queryClient.invalidateQueries({ queryKey: ['/api/business/employees/messages'] });
+        }
+      )
       .subscribe((status) => {
         setIsConnected(status === 'SUBSCRIBED');
         if (status === 'SUBSCRIBED') {
+          // Catch up on messages that arrived while this client was offline
+          acknowledgeDelivered();
           toast({
             title: "Connected",
             description: "Message connection established",
@@ -70,9 +119,9 @@ export function useRealtime(userId: string | undefined, role: string | undefined
     };
   }, [userId, role, queryClient, toast]);
 
+  // Post through the server, which checks access and works out the receiver
   const sendMessage = useCallback(async (message: {
     content: string;
-    senderId: string;
     receiverId?: string;
     ticketId?: number;
   }) => {
@@ -80,18 +129,22 @@ export function useRealtime(userId: string | undefined, role: string | undefined
       throw new Error('Invalid message target: Must specify either ticketId or receiverId');
     }
     try {
-      const { error } = await supabase
-        .from('messages')
-        .insert([{
-          content: message.content,
-          sender_id: message.senderId,
-          receiver_id: message.receiverId,
-          ticket_id: message.ticketId,
-          status: 'sent',
-          created_at: new Date().toISOString()
-        }]);
+      const res = await fetch(
+        message.ticketId
+          ? `/api/tickets/${message.ticketId}/messages`
+          : `/api/direct-messages/${message.receiverId}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: message.content }),
+          credentials: 'include',
+        }
+      );
 
-      if (error) throw error;
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to send message');
+      }
 
       // Invalidate relevant queries
       if (message.ticketId) {
@@ -103,6 +156,7 @@ export function useRealtime(userId: string | undefined, role: string | undefined
         queryClient.invalidateQueries({ 
           queryKey: ['/api/direct-messages', message.receiverId]
         });
+        queryClient.invalidateQueries({ queryKey: ['/api/direct-messages'], exact: true });
       }
     } catch (error) {
       console.error('Error sending message:', error);
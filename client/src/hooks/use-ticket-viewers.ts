@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useUser } from '@/hooks/use-user';
+
+export interface TicketViewer {
+  id: number;
+  username: string;
+  composing: boolean;
+}
+
+interface ViewerMeta {
+  user_id: number;
+  username: string;
+  composing: boolean;
+}
+
+// Staff currently looking at a ticket, and whether they are drafting a reply.
+// Announces the current user on the same presence channel. Customers are never tracked.
+export function useTicketViewers(ticketId: number | null | undefined, composing = false) {
+  const { user } = useUser();
+  const [viewers, setViewers] = useState<TicketViewer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const composingRef = useRef(composing);
+  composingRef.current = composing;
+
+  const isStaff = user?.role === 'business' || user?.role === 'employee';
+
+  useEffect(() => {
+    if (!ticketId || !user || !isStaff) return;
+
+    const channel = supabase
+      .channel(`ticket-viewers:${ticketId}`, { config: { presence: { key: String(user.id) } } })
+      .on('presence', { event: 'sync' }, () => {
+        // A user with the ticket open in several tabs counts once, composing if any tab is
+        const byUser = new Map<number, TicketViewer>();
+        Object.values(channel.presenceState<ViewerMeta>()).flat().forEach(meta => {
+          if (meta.user_id === user.id) return;
+          const existing = byUser.get(meta.user_id);
+          byUser.set(meta.user_id, {
+            id: meta.user_id,
+            username: meta.username,
+            composing: meta.composing || !!existing?.composing
+          });
+        });
+        setViewers(Array.from(byUser.values()));
+      });
+
+    channel.subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await channel.track({ user_id: user.id, username: user.username, composing: composingRef.current });
+      }
+    });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [ticketId, user, isStaff]);
+
+  // Republish when the user starts or stops drafting
+  useEffect(() => {
+    if (!user) return;
+    channelRef.current?.track({ user_id: user.id, username: user.username, composing });
+  }, [composing, user]);
+
+  return viewers;
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useUser } from '@/hooks/use-user';
+
+export interface TypingUser {
+  id: number;
+  username: string;
+}
+
+// Drop someone from the list if their typing events stop without a "stopped" event
+const TYPING_TIMEOUT = 4000;
+// Send at most one "typing" event this often while keys are being pressed
+const TYPING_THROTTLE = 2000;
+
+// Ephemeral "is typing" events for one conversation, broadcast over a realtime
+// channel and never stored. Pass null to stay disconnected.
+export function useTypingIndicator(topic: string | null) {
+  const { user } = useUser();
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!topic || !user) return;
+
+    const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+    const remove = (userId: number) => {
+      clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      setTypingUsers(prev => prev.filter(typist => typist.id !== userId));
+    };
+
+    const channel = supabase
+      .channel(`typing:${topic}`, { config: { broadcast: { self: false } } })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { id, username, typing } = payload as TypingUser & { typing: boolean };
+
+        if (!typing) {
+          remove(id);
+          return;
+        }
+
+        clearTimeout(timers.get(id));
+        timers.set(id, setTimeout(() => remove(id), TYPING_TIMEOUT));
+        setTypingUsers(prev => prev.some(typist => typist.id === id) ? prev : [...prev, { id, username }]);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      channelRef.current = null;
+      lastSentRef.current = 0;
+      setTypingUsers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [topic, user]);
+
+  const send = useCallback((typing: boolean) => {
+    if (!user) return;
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { id: user.id, username: user.username, typing }
+    });
+  }, [user]);
+
+  // Call on every keystroke; events are throttled here
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING_THROTTLE) return;
+    lastSentRef.current = now;
+    send(true);
+  }, [send]);
+
+  // Call when the message is sent or the draft is cleared
+  const stopTyping = useCallback(() => {
+    if (!lastSentRef.current) return;
+    lastSentRef.current = 0;
+    send(false);
+  }, [send]);
+
+  return { typingUsers, notifyTyping, stopTyping };
+}
+
+export function formatTypingUsers(typingUsers: TypingUser[]) {
+  if (typingUsers.length === 0) return null;
+  if (typingUsers.length === 1) return `${typingUsers[0].username} is typing…`;
+  if (typingUsers.length === 2) return `${typingUsers[0].username} and ${typingUsers[1].username} are typing…`;
+  return 'Several people are typing…';
+}
@@ -5,9 +5,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import TicketList from "@/components/ticket-list";
 import TicketFilters from "@/components/ticket-filters";
+import TicketSearch from "@/components/ticket-search";
 import EmployeeManagement from "@/components/employee-management";
+import SlaPolicyManager from "@/components/sla-policy-manager";
+import RoutingSettings from "@/components/routing-settings";
+import AutomationRules from "@/components/automation-rules";
+import TimeRuleSettings from "@/components/time-rule-settings";
+import JobQueueStatus from "@/components/job-queue-status";
+import ActiveSessions from "@/components/active-sessions";
+import UnreadMessagesBadge from "@/components/unread-messages-badge";
 import { useUser } from "@/hooks/use-user";
-import { BarChart, MessageCircle, Users } from "lucide-react";
+import { BarChart, ListChecks, MessageCircle, Search, Timer, Users, Workflow } from "lucide-react";
 import { Link } from "wouter";
 import type { Ticket } from "@db/schema";
 
@@ -18,6 +26,8 @@ export default function BusinessDashboard() {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
+  const [tab, setTab] = useState("active");
+  const [openTicket, setOpenTicket] = useState<{ id: number } | null>(null);
 
   const { data: tickets } = useQuery<Ticket[]>({
     queryKey: ['/api/tickets'],
@@ -64,9 +74,7 @@ export default function BusinessDashboard() {
               <Button variant="outline" className="flex items-center gap-2">
                 <MessageCircle className="h-4 w-4" />
                 Messages
-                {tickets?.some(t => t.unreadCount > 0) && (
-                  <div className="h-2 w-2 rounded-full bg-blue-500 animate-pulse" />
-                )}
+                <UnreadMessagesBadge />
               </Button>
             </Link>
             <Link href="/analytics">
@@ -76,6 +84,7 @@ export default function BusinessDashboard() {
               </Button>
             </Link>
             <span className="text-sm text-gray-500">Welcome, {user?.username}</span>
+            <ActiveSessions />
             <Button variant="outline" onClick={() => logout()}>
               Logout
             </Button>
@@ -91,12 +100,75 @@ export default function BusinessDashboard() {
               Employee Management
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <EmployeeManagement />
+            <RoutingSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              SLA Policies
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SlaPolicyManager />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              Automation Rules
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <AutomationRules />
+            <TimeRuleSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Background Jobs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <JobQueueStatus />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Search className="h-5 w-5" />
+              Search
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TicketSearch
+              isBusiness
+              onSelectTicket={(result) => {
+                setTab(result.status === "resolved" ? "resolved" : "active");
+                setOpenTicket({ id: result.ticket_id });
+              }}
+            />
           </CardContent>
         </Card>
 
-        <Tabs defaultValue="active" className="w-full">
+        <Tabs
+          value={tab}
+          onValueChange={(value) => {
+            setTab(value);
+            setOpenTicket(null);
+          }}
+          className="w-full"
+        >
           <TabsList>
             <TabsTrigger value="active">Active Tickets</TabsTrigger>
             <TabsTrigger value="resolved">Ticket History</TabsTrigger>
@@ -115,7 +187,7 @@ export default function BusinessDashboard() {
                   onPriorityChange={setPriorityFilter}
                   onSortChange={setSortBy}
                 />
-                <TicketList tickets={filterTickets(activeTickets)} isBusiness />
+                <TicketList tickets={filterTickets(activeTickets)} isBusiness openTicket={openTicket} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -133,7 +205,7 @@ export default function BusinessDashboard() {
                   onPriorityChange={setPriorityFilter}
                   onSortChange={setSortBy}
                 />
-                <TicketList tickets={filterTickets(resolvedTickets)} isBusiness readonly />
+                <TicketList tickets={filterTickets(resolvedTickets)} isBusiness readonly openTicket={openTicket} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -8,12 +8,13 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useUser } from "@/hooks/use-user";
 import { useToast } from "@/hooks/use-toast";
-//import TicketChat from "@/components/ticket-chat"; // Removed as per intention
+import TicketChat from "@/components/ticket-chat";
+import { TeamChannelChat, TeamChannelList, type TeamChannel } from "@/components/team-channels";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/lib/supabase";
 
 interface Employee {
-  id: string;
+  id: number;
   username: string;
   role: string;
   status: 'active' | 'inactive';
@@ -28,69 +29,14 @@ export default function BusinessMessages() {
   const { user } = useUser();
   const { toast } = useToast();
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [selectedChannel, setSelectedChannel] = useState<TeamChannel | null>(null);
   const [employeeSearchTerm, setEmployeeSearchTerm] = useState("");
   const queryClient = useQueryClient();
 
   // Fetch all employees with their last message and unread count
   const { data: employees = [], isLoading } = useQuery<Employee[]>({
     queryKey: ['/api/business/employees/messages'],
-    queryFn: async () => {
-      if (!user?.id) {
-        console.log('No user ID available');
-        return [];
-      }
-
-      // First get all employees
-      const { data: employees, error: employeesError } = await supabase
-        .from('business_employees')
-        .select(`
-          employee:employee_id (
-            id,
-            username,
-            role
-          ),
-          status
-        `)
-        .eq('business_id', user.id)
-        .eq('status', 'active');
-
-      if (employeesError) {
-        console.error('Error fetching employees:', employeesError);
-        throw employeesError;
-      }
-
-      // For each employee, get their last message and unread count
-      const employeesWithMessages = await Promise.all((employees || []).map(async ({ employee, status }) => {
-        // Get last message
-        const { data: lastMessage } = await supabase
-          .from('messages')
-          .select('content, sent_at')
-          .or(`sender_id.eq.${employee.id},receiver_id.eq.${employee.id}`)
-          .order('sent_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        // Get unread count
-        const { count: unreadCount } = await supabase
-          .from('messages')
-          .select('*', { head: true, count: 'exact' })
-          .eq('sender_id', employee.id)
-          .eq('receiver_id', user.id)
-          .eq('status', 'unread');
-
-        return {
-          id: employee.id,
-          username: employee.username,
-          role: employee.role,
-          status: status,
-          unreadCount: unreadCount || 0,
-          lastMessage: lastMessage || undefined
-        };
-      }));
-
-      return employeesWithMessages;
-    },
-    refetchInterval: 5000 // Poll every 5 seconds for updates
+    enabled: !!user
   });
 
   // Filter employees based on search
@@ -102,24 +48,26 @@ export default function BusinessMessages() {
   useEffect(() => {
     if (!user?.id) return;
 
+    const refresh = () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/business/employees/messages'] });
+    };
+
     const messagesSubscription = supabase
-      .channel('messages')
+      .channel(`business-messages:${user.id}`)
       .on(
         'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'messages',
-          filter: `or(sender_id.eq.${user.id},receiver_id.eq.${user.id})`
-        },
-        () => {
-          queryClient.invalidateQueries({ queryKey: ['/api/business/employees/messages'] });
-        }
+        { event: '*', schema: 'public', table: 'direct_messages', filter: `receiver_id=eq.${user.id}` },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'direct_messages', filter: `sender_id=eq.${user.id}` },
+        refresh
       )
       .subscribe();
 
     return () => {
-      messagesSubscription.unsubscribe();
+      supabase.removeChannel(messagesSubscription);
     };
   }, [user?.id, queryClient]);
 
@@ -146,6 +94,15 @@ export default function BusinessMessages() {
           </div>
 
           <ScrollArea className="flex-1">
+            <div className="p-2 pb-4 border-b">
+              <TeamChannelList
+                selectedChannelId={selectedChannel?.id ?? null}
+                onSelect={(channel) => {
+                  setSelectedChannel(channel);
+                  setSelectedEmployee(null);
+                }}
+              />
+            </div>
             <div className="space-y-2 p-2">
               {isLoading ? (
                 <div className="p-4 text-sm text-muted-foreground">
@@ -164,7 +121,10 @@ export default function BusinessMessages() {
                         ? "bg-primary text-primary-foreground"
                         : "hover:bg-muted"
                     }`}
-                    onClick={() => setSelectedEmployee(emp)}
+                    onClick={() => {
+                      setSelectedEmployee(emp);
+                      setSelectedChannel(null);
+                    }}
                   >
                     <div className="flex items-start justify-between">
                       <div>
@@ -190,13 +150,21 @@ export default function BusinessMessages() {
 
         {/* Chat Area */}
         <Card className="col-span-8 flex flex-col">
-          {selectedEmployee ? (
-            //  Replace TicketChat with a suitable chat component for direct messages
-            <div>Direct Message Component Placeholder - Replace with your implementation</div>
-
+          {selectedChannel ? (
+            <TeamChannelChat
+              key={selectedChannel.id}
+              channel={selectedChannel}
+              onLeave={() => setSelectedChannel(null)}
+            />
+          ) : selectedEmployee ? (
+            <TicketChat
+              key={selectedEmployee.id}
+              directMessageUserId={String(selectedEmployee.id)}
+              chatType="employee"
+            />
           ) : (
             <div className="flex-1 flex items-center justify-center text-muted-foreground">
-              Select an employee to start messaging
+              Select a channel or an employee to start messaging
             </div>
           )}
         </Card>
@@ -11,7 +11,10 @@ import {
 } from "@/components/ui/select";
 import TicketForm from "@/components/ticket-form";
 import TicketList from "@/components/ticket-list";
+import TicketSearch from "@/components/ticket-search";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
+import ActiveSessions from "@/components/active-sessions";
+import UnreadMessagesBadge from "@/components/unread-messages-badge";
 import { useUser } from "@/hooks/use-user";
 import { MessageCircle, Plus } from "lucide-react";
 import { Link } from "wouter";
@@ -39,6 +42,7 @@ export default function CustomerDashboard() {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
+  const [openTicket, setOpenTicket] = useState<{ id: number } | null>(null);
 
   const filteredTickets = tickets?.filter((ticket) => {
     // Filter by selected business
@@ -80,12 +84,14 @@ export default function CustomerDashboard() {
                 <Button variant="outline" size="sm" className="flex items-center gap-2">
                   <MessageCircle className="h-4 w-4" />
                   Messages
+                  <UnreadMessagesBadge />
                 </Button>
               </Link>
               <div className="flex items-center gap-4 border-l pl-4">
                 <span className="text-sm text-muted-foreground">
                   Welcome, {user?.username}
                 </span>
+                <ActiveSessions />
                 <Button variant="ghost" size="sm" onClick={() => logout()}>
                   Logout
                 </Button>
@@ -112,6 +118,7 @@ export default function CustomerDashboard() {
             </Dialog>
           </CardHeader>
           <CardContent className="space-y-6">
+            <TicketSearch onSelectTicket={(result) => setOpenTicket({ id: result.ticket_id })} />
             <div className="flex justify-end">
               <Select
                 value={selectedBusiness}
@@ -130,7 +137,7 @@ export default function CustomerDashboard() {
                 </SelectContent>
               </Select>
             </div>
-            <TicketList tickets={filteredTickets} />
+            <TicketList tickets={filteredTickets} openTicket={openTicket} />
           </CardContent>
         </Card>
       </main>
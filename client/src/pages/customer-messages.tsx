@@ -58,51 +58,17 @@ export default function CustomerMessages() {
   const [activeTab, setActiveTab] = useState<string>("active");
   const [isNewTicketDialogOpen, setIsNewTicketDialogOpen] = useState(false);
 
-  // Fetch customer's tickets using Supabase
+  // Fetch customer's tickets with their unread message counts
   const { data: tickets = [], isLoading } = useQuery<TicketWithInfo[]>({
     queryKey: ['/api/tickets/customer'],
     queryFn: async () => {
-      if (!user?.id) return [];
-
-      const { data: tickets, error } = await supabase
-        .from('tickets')
-        .select(`
-          *,
-          business:business_profile_id (
-            id,
-            business_name,
-            user_id
-          )
-        `)
-        .eq('customer_id', user.id.toString())
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Get unread counts and business responses
-      const ticketsWithInfo = await Promise.all((tickets || []).map(async (ticket) => {
-        const { count: unreadCount } = await supabase
-          .from('messages')
-          .select('*', { head: true, count: 'exact' })
-          .eq('ticket_id', ticket.id)
-          .eq('sender_id', ticket.business_id)
-          .eq('status', 'unread');
-
-        const { count: hasBusinessResponse } = await supabase
-          .from('messages')
-          .select('*', { head: true, count: 'exact' })
-          .eq('ticket_id', ticket.id)
-          .eq('sender_id', ticket.business_id);
-
-        return {
-          ...ticket,
-          unreadCount: unreadCount || 0,
-          hasBusinessResponse: hasBusinessResponse ? hasBusinessResponse > 0 : false
-        };
-      }));
-
-      return ticketsWithInfo;
+      const res = await fetch('/api/tickets', {
+        credentials: 'include'
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
     },
+    enabled: !!user,
     refetchInterval: 5000 // Poll every 5 seconds
   });
 
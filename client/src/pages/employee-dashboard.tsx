@@ -4,10 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import TicketList from "@/components/ticket-list";
 import TicketFilters from "@/components/ticket-filters";
+import TicketSearch from "@/components/ticket-search";
 import InvitationHandler from "@/components/invitation-handler";
 import BusinessSwitcher from "@/components/business-switcher";
+import ActiveSessions from "@/components/active-sessions";
+import UnreadMessagesBadge from "@/components/unread-messages-badge";
 import { useUser } from "@/hooks/use-user";
-import { MessageCircle, Building2 } from "lucide-react";
+import { MessageCircle, Building2, BarChart } from "lucide-react";
 import { Link } from "wouter";
 import type { Ticket } from "@db/schema";
 
@@ -18,6 +21,7 @@ interface BusinessConnection {
   };
   connection: {
     isActive: boolean;
+    role: 'agent' | 'supervisor' | 'admin';
   };
 }
 
@@ -29,6 +33,7 @@ export default function EmployeeDashboard() {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
+  const [openTicket, setOpenTicket] = useState<{ id: number } | null>(null);
 
   // Query to check business connections
   const { data: businessConnections = [], isLoading: isLoadingBusinesses } = useQuery<BusinessConnection[]>({
@@ -75,12 +80,22 @@ export default function EmployeeDashboard() {
               <Button variant="outline" size="sm" className="flex items-center gap-2">
                 <MessageCircle className="h-4 w-4" />
                 Messages
+                <UnreadMessagesBadge />
               </Button>
             </Link>
+            {currentBusiness && currentBusiness.connection.role !== 'agent' && (
+              <Link href={`/analytics?businessProfileId=${currentBusinessId}`}>
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                  <BarChart className="h-4 w-4" />
+                  Analytics
+                </Button>
+              </Link>
+            )}
             <div className="flex items-center gap-4 border-l pl-4">
               <span className="text-sm text-muted-foreground">
                 Welcome, {user?.username}
               </span>
+              <ActiveSessions />
               <Button variant="ghost" size="sm" onClick={() => logout()}>
                 Logout
               </Button>
@@ -124,6 +139,12 @@ export default function EmployeeDashboard() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
+              <TicketSearch
+                isEmployee
+                userId={user?.id}
+                businessProfileId={currentBusinessId}
+                onSelectTicket={(result) => setOpenTicket({ id: result.ticket_id })}
+              />
               <TicketFilters 
                 searchTerm={searchTerm}
                 onSearchChange={setSearchTerm}
@@ -139,6 +160,7 @@ export default function EmployeeDashboard() {
                 tickets={tickets}
                 isEmployee={true}
                 userId={user?.id}
+                openTicket={openTicket}
               />
             </CardContent>
           </Card>
@@ -14,6 +14,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import TicketChat from "@/components/ticket-chat";
+import PresenceDot from "@/components/presence-dot";
+import { TeamChannelChat, TeamChannelList, type TeamChannel } from "@/components/team-channels";
+import { usePresence } from "@/hooks/use-presence";
 import { type Ticket } from "@db/schema";
 
 interface TicketWithCustomer extends Ticket {
@@ -26,19 +29,51 @@ interface TicketWithCustomer extends Ticket {
 }
 
 interface User {
-  id: string;
+  id: number;
   username: string;
   role: string;
 }
 
 interface BusinessUser {
-  id: string;
+  id: number;
   username: string;
   role: 'business';
 }
 
+interface Conversation {
+  user: User;
+  lastMessage: {
+    content: string;
+    sender_id: number;
+    sent_at: string;
+  };
+  unreadCount: number;
+}
+
+interface ActiveBusiness {
+  business: {
+    id: number;
+    business_name: string;
+  };
+}
+
 type ChatType = 'ticket' | 'business' | 'employee';
 
+const UnreadCount = ({ count }: { count?: number }) =>
+  count ? (
+    <span className="inline-flex items-center justify-center bg-primary text-primary-foreground text-xs rounded-full h-5 min-w-[1.25rem] px-1">
+      {count}
+    </span>
+  ) : null;
+
+const LastMessagePreview = ({ conversation }: { conversation?: Conversation }) =>
+  conversation ? (
+    <p className="mt-1 text-sm opacity-70 truncate">
+      {conversation.lastMessage.sender_id !== conversation.user.id && "You: "}
+      {conversation.lastMessage.content}
+    </p>
+  ) : null;
+
 export default function EmployeeMessages() {
   const ticketId = new URLSearchParams(window.location.search).get('ticketId');
   const { user } = useUser();
@@ -48,14 +83,16 @@ export default function EmployeeMessages() {
     ticketId ? parseInt(ticketId) : null
   );
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [selectedChannel, setSelectedChannel] = useState<TeamChannel | null>(null);
   const [viewType, setViewType] = useState<'active' | 'resolved' | 'direct'>('active');
   const [chatType, setChatType] = useState<ChatType>('ticket');
   const queryClient = useQueryClient();
+  const getPresence = usePresence();
 
   const [selectedBusinessId, setSelectedBusinessId] = useState<string>("all");
 
   // Fetch businesses where employee has connections
-  const { data: businesses = [] } = useQuery({
+  const { data: businesses = [] } = useQuery<ActiveBusiness[]>({
     queryKey: ['/api/employees/active-businesses'],
     queryFn: async () => {
       const res = await fetch('/api/employees/active-businesses', {
@@ -102,10 +139,19 @@ export default function EmployeeMessages() {
     enabled: viewType === 'direct'
   });
 
+  // Last message and unread count for each team conversation
+  const { data: conversations = [] } = useQuery<Conversation[]>({
+    queryKey: ['/api/direct-messages'],
+    enabled: viewType === 'direct'
+  });
+
+  const conversationWith = (userId: number) =>
+    conversations.find(conversation => conversation.user.id === userId);
+
   // Force refresh when switching view types
   useEffect(() => {
     if (viewType === 'direct') {
-      queryClient.invalidateQueries({ queryKey: ['/api/messages/direct'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/direct-messages'], exact: true });
     }
   }, [viewType, queryClient]);
     // Sort tickets by last message time
@@ -124,12 +170,14 @@ export default function EmployeeMessages() {
   const handleTicketSelect = (ticketId: number) => {
     setSelectedTicketId(ticketId);
     setSelectedUserId(null);
+    setSelectedChannel(null);
     setChatType('ticket');
   };
 
-  const handleUserSelect = (userId: string, type: ChatType) => {
-    setSelectedUserId(userId);
+  const handleUserSelect = (userId: number, type: ChatType) => {
+    setSelectedUserId(String(userId));
     setSelectedTicketId(null);
+    setSelectedChannel(null);
     setChatType(type);
   };
 
@@ -188,6 +236,7 @@ export default function EmployeeMessages() {
                     setViewType(value);
                     setSelectedTicketId(null);
                     setSelectedUserId(null);
+                    setSelectedChannel(null);
                   }}
                 >
                   <SelectTrigger className="w-full">
@@ -244,7 +293,7 @@ export default function EmployeeMessages() {
                               <div className="min-w-0 flex-1">
                                 <div className="flex items-center gap-2">
                                   <p className="font-medium truncate">{ticket.customer.username}</p>
-                                  {ticket.unreadCount && ticket.unreadCount > 0 && (
+                                  {!!ticket.unreadCount && (
                                     <span className="inline-flex items-center justify-center bg-primary text-primary-foreground text-xs rounded-full h-5 min-w-[1.25rem] px-1">
                                       {ticket.unreadCount}
                                     </span>
@@ -273,6 +322,24 @@ export default function EmployeeMessages() {
                   ) : (
                     // Team Messages Section
                     <div className="divide-y">
+                      {/* Group channels, per business */}
+                      {businesses
+                        .filter((conn) => selectedBusinessId === "all" || conn.business.id.toString() === selectedBusinessId)
+                        .map((conn) => (
+                          <div key={conn.business.id} className="p-4">
+                            <TeamChannelList
+                              businessProfileId={conn.business.id}
+                              title={businesses.length > 1 ? `${conn.business.business_name} Channels` : "Channels"}
+                              selectedChannelId={selectedChannel?.id ?? null}
+                              onSelect={(channel) => {
+                                setSelectedChannel(channel);
+                                setSelectedTicketId(null);
+                                setSelectedUserId(null);
+                              }}
+                            />
+                          </div>
+                        ))}
+
                       {/* Business Users Section */}
                       {businessUsers.length > 0 && (
                         <div className="p-4 bg-muted/50">
@@ -286,17 +353,24 @@ export default function EmployeeMessages() {
                                 key={businessUser.id}
                                 onClick={() => handleUserSelect(businessUser.id, 'business')}
                                 className={`w-full px-4 py-3 text-left rounded-lg transition-colors ${
-                                  selectedUserId === businessUser.id && chatType === 'business'
+                                  selectedUserId === String(businessUser.id) && chatType === 'business'
                                     ? "bg-primary text-primary-foreground"
                                     : "hover:bg-muted"
                                 }`}
                               >
                                 <div className="flex items-center justify-between">
-                                  <p className="font-medium">{businessUser.username}</p>
-                                  <span className="px-2 py-1 rounded text-xs bg-blue-100 text-blue-800">
-                                    Business Owner
+                                  <p className="font-medium flex items-center gap-2">
+                                    <PresenceDot status={getPresence(businessUser.id)} />
+                                    {businessUser.username}
+                                  </p>
+                                  <span className="flex items-center gap-2">
+                                    <UnreadCount count={conversationWith(businessUser.id)?.unreadCount} />
+                                    <span className="px-2 py-1 rounded text-xs bg-blue-100 text-blue-800">
+                                      Business Owner
+                                    </span>
                                   </span>
                                 </div>
+                                <LastMessagePreview conversation={conversationWith(businessUser.id)} />
                               </button>
                             ))}
                           </div>
@@ -314,17 +388,24 @@ export default function EmployeeMessages() {
                               key={teamMember.id}
                               onClick={() => handleUserSelect(teamMember.id, 'employee')}
                               className={`w-full px-4 py-3 text-left rounded-lg transition-colors ${
-                                selectedUserId === teamMember.id && chatType === 'employee'
+                                selectedUserId === String(teamMember.id) && chatType === 'employee'
                                   ? "bg-primary text-primary-foreground"
                                   : "hover:bg-muted"
                               }`}
                             >
                               <div className="flex items-center justify-between">
-                                <p className="font-medium">{teamMember.username}</p>
-                                <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-800">
-                                  {teamMember.role}
+                                <p className="font-medium flex items-center gap-2">
+                                  <PresenceDot status={getPresence(teamMember.id)} />
+                                  {teamMember.username}
+                                </p>
+                                <span className="flex items-center gap-2">
+                                  <UnreadCount count={conversationWith(teamMember.id)?.unreadCount} />
+                                  <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-800">
+                                    {teamMember.role}
+                                  </span>
                                 </span>
                               </div>
+                              <LastMessagePreview conversation={conversationWith(teamMember.id)} />
                             </button>
                           ))}
                           {filteredUsers.length === 0 && userSearchTerm && (
@@ -349,6 +430,12 @@ export default function EmployeeMessages() {
                   ticketId={selectedTicketId}
                   readonly={false}
                 />
+              ) : selectedChannel ? (
+                <TeamChannelChat
+                  key={selectedChannel.id}
+                  channel={selectedChannel}
+                  onLeave={() => setSelectedChannel(null)}
+                />
               ) : selectedUserId ? (
                 <TicketChat
                   directMessageUserId={selectedUserId}
@@ -1,5 +1,5 @@
-import { pgTable, text, serial, timestamp, boolean, integer } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, timestamp, boolean, integer, jsonb, unique, index } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,6 +13,18 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// Login sessions, persisted so they survive restarts and can be shared between server processes
+export const sessions = pgTable("sessions", {
+  sid: text("sid").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  data: jsonb("data").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
 // Business details table
 export const businessProfiles = pgTable("business_profiles", {
   id: serial("id").primaryKey(),
@@ -27,6 +39,12 @@ export const businessEmployees = pgTable("business_employees", {
   businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
   employeeId: text("employee_id").references(() => users.id).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
+  // What the employee may do inside this business; see server/permissions.ts
+  role: text("role", { enum: ["agent", "supervisor", "admin"] }).default("agent").notNull(),
+  // Ticket categories this employee is best suited to handle
+  skills: text("skills", {
+    enum: ["technical", "billing", "feature_request", "general_inquiry", "bug_report"]
+  }).array().default([]).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
@@ -39,6 +57,35 @@ export const employeeInvitations = pgTable("employee_invitations", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Working hours used when counting SLA time. Times are "HH:mm" in the
+// business's local time, days are 0 (Sunday) through 6.
+export type BusinessHours = {
+  days: number[];
+  start: string;
+  end: string;
+  utcOffsetMinutes: number;
+};
+
+// SLA targets per business. A null priority or category matches any value,
+// and the most specific policy wins.
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
+  name: text("name").notNull(),
+  priority: text("priority", {
+    enum: ["low", "medium", "high", "urgent"]
+  }),
+  category: text("category", {
+    enum: ["technical", "billing", "feature_request", "general_inquiry", "bug_report"]
+  }),
+  firstResponseMinutes: integer("first_response_minutes").notNull(),
+  nextResponseMinutes: integer("next_response_minutes"),
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  businessHours: jsonb("business_hours").$type<BusinessHours>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
 // Updated tickets table with text IDs for users
 export const tickets = pgTable("tickets", {
   id: serial("id").primaryKey(),
@@ -62,9 +109,17 @@ export const tickets = pgTable("tickets", {
   escalatedById: integer("escalated_by_id").references(() => users.id),
   escalationReason: text("escalation_reason"),
   previousAssigneeId: integer("previous_assignee_id").references(() => users.id),
+  slaPolicyId: integer("sla_policy_id").references(() => slaPolicies.id),
+  firstResponseDueAt: timestamp("first_response_due_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  // Set when a resolved ticket is closed for good; closed tickets take no more messages
+  closedAt: timestamp("closed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
-});
+}, (table) => ({
+  // Full-text search, titles ranked above descriptions. Must match the expression in server/search.ts.
+  searchIndex: index("tickets_search_idx").using("gin", sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', ${table.description}), 'B'))`)
+}));
 
 // Updated messages table with Supabase-compatible schema
 export const messages = pgTable("messages", {
@@ -79,12 +134,29 @@ export const messages = pgTable("messages", {
   sentAt: timestamp("sent_at").defaultNow().notNull(),
   deliveredAt: timestamp("delivered_at"),
   readAt: timestamp("read_at"),
+  // Set when the sender changes the content; earlier versions live in message_edits
+  editedAt: timestamp("edited_at"),
+  // Retracted messages stay in the chat as a tombstone with their content cleared
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  searchIndex: index("messages_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`)
+}));
+
+// Prior versions of a message, recorded on every edit and on deletion
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  editedById: integer("edited_by_id").references(() => users.id).notNull(),
+  action: text("action", { enum: ["edit", "delete"] }).notNull(),
+  previousContent: text("previous_content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
 export const ticketFeedback = pgTable("ticket_feedback", {
   id: serial("id").primaryKey(),
-  ticketId: integer("ticket_id").references(() => tickets.id).notNull(),
+  // One feedback entry per ticket
+  ticketId: integer("ticket_id").references(() => tickets.id).notNull().unique(),
   rating: integer("rating").notNull(),
   comment: text("comment"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -97,7 +169,10 @@ export const unreadMessages = pgTable("unread_messages", {
   count: integer("count").default(0).notNull(),
   lastReadAt: timestamp("last_read_at"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // One counter per user and ticket conversation
+  userTicket: unique().on(table.userId, table.ticketId)
+}));
 
 export const ticketNotes = pgTable("ticket_notes", {
   id: serial("id").primaryKey(),
@@ -105,7 +180,9 @@ export const ticketNotes = pgTable("ticket_notes", {
   businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  searchIndex: index("ticket_notes_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`)
+}));
 
 export const ticketEscalations = pgTable("ticket_escalations", {
   id: serial("id").primaryKey(),
@@ -123,6 +200,66 @@ export const ticketEscalations = pgTable("ticket_escalations", {
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// How new tickets are distributed among a business's active employees
+export const routingSettings = pgTable("routing_settings", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull().unique(),
+  strategy: text("strategy", {
+    enum: ["manual", "round_robin", "least_loaded"]
+  }).default("manual").notNull(),
+  maxOpenTickets: integer("max_open_tickets"),
+  lastAssignedEmployeeId: integer("last_assigned_employee_id").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Log of every automatic assignment attempt and why it went where it did
+export const ticketAssignments = pgTable("ticket_assignments", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").references(() => tickets.id).notNull(),
+  assigneeId: integer("assignee_id").references(() => users.id),
+  method: text("method", {
+    enum: ["round_robin", "least_loaded"]
+  }).notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Manual handoffs of a ticket from one employee to another
+export const ticketTransfers = pgTable("ticket_transfers", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").references(() => tickets.id).notNull(),
+  fromAssigneeId: integer("from_assignee_id").references(() => users.id),
+  toAssigneeId: integer("to_assignee_id").references(() => users.id).notNull(),
+  transferredById: integer("transferred_by_id").references(() => users.id).notNull(),
+  note: text("note").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Audit trail of status, priority and category changes on a ticket
+export const ticketHistory = pgTable("ticket_history", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").references(() => tickets.id).notNull(),
+  changedById: integer("changed_by_id").references(() => users.id).notNull(),
+  field: text("field", { enum: ["status", "priority", "category"] }).notNull(),
+  fromValue: text("from_value"),
+  toValue: text("to_value").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Files uploaded with a new ticket or a chat message. Rows start unlinked at upload
+// and get their ticket (and message) once the upload is sent.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").references(() => tickets.id),
+  messageId: integer("message_id").references(() => messages.id),
+  uploaderId: integer("uploader_id").references(() => users.id).notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 export const directMessages = pgTable("direct_messages", {
   id: serial("id").primaryKey(),
   content: text("content").notNull(),
@@ -138,6 +275,152 @@ export const directMessages = pgTable("direct_messages", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Group chat channels for a business's staff, e.g. #billing or #escalations
+export const teamChannels = pgTable("team_channels", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  businessName: unique().on(table.businessProfileId, table.name)
+}));
+
+// Who belongs to a channel and how far they have read
+export const teamChannelMembers = pgTable("team_channel_members", {
+  id: serial("id").primaryKey(),
+  channelId: integer("channel_id").references(() => teamChannels.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  lastReadMessageId: integer("last_read_message_id"),
+  joinedAt: timestamp("joined_at").defaultNow().notNull()
+}, (table) => ({
+  channelUser: unique().on(table.channelId, table.userId)
+}));
+
+export const teamChannelMessages = pgTable("team_channel_messages", {
+  id: serial("id").primaryKey(),
+  channelId: integer("channel_id").references(() => teamChannels.id).notNull(),
+  senderId: integer("sender_id").references(() => users.id).notNull(),
+  content: text("content").notNull(),
+  // Ids of the channel members @mentioned in the message
+  mentions: jsonb("mentions").$type<number[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Canned replies staff can drop into a chat. Personal templates belong to their
+// creator; shared ones are visible to the whole business.
+export const replyTemplates = pgTable("reply_templates", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  category: text("category"),
+  scope: text("scope", { enum: ["personal", "shared"] }).default("personal").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// A named bundle of ticket actions staff can run in one step: a reply to the
+// customer, status/priority/category changes and an internal note. Empty fields are skipped.
+export const macros = pgTable("macros", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  title: text("title").notNull(),
+  replyContent: text("reply_content"),
+  status: text("status", { enum: ["open", "in_progress", "resolved"] }),
+  priority: text("priority", { enum: ["low", "medium", "high", "urgent"] }),
+  category: text("category", {
+    enum: ["technical", "billing", "feature_request", "general_inquiry", "bug_report"]
+  }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// What an automation rule checks and does. Stored as JSON on the rule; see server/automations.ts.
+export type AutomationCondition = {
+  field: "category" | "priority" | "escalationLevel" | "customer" | "messageContent";
+  operator: "equals" | "not_equals" | "contains";
+  value: string;
+};
+
+export type AutomationAction =
+  | { type: "assign"; assigneeId?: number | null }
+  | { type: "set_priority"; priority: "low" | "medium" | "high" | "urgent" }
+  | { type: "add_note"; content: string }
+  | { type: "send_reply"; content: string }
+  | { type: "escalate"; reason: string };
+
+// "When <trigger>, if <all conditions>, then <actions>" rules for a business, run in position order
+export const automationRules = pgTable("automation_rules", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull(),
+  name: text("name").notNull(),
+  trigger: text("trigger", {
+    enum: ["ticket_created", "message_received", "status_changed", "priority_changed"]
+  }).notNull(),
+  conditions: jsonb("conditions").$type<AutomationCondition[]>().default([]).notNull(),
+  actions: jsonb("actions").$type<AutomationAction[]>().notNull(),
+  position: integer("position").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Every time a rule matched a ticket, and what its actions did
+export const automationRuns = pgTable("automation_runs", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").references(() => automationRules.id),
+  // Kept so the log still reads sensibly after a rule is deleted
+  ruleName: text("rule_name").notNull(),
+  ticketId: integer("ticket_id").references(() => tickets.id).notNull(),
+  trigger: text("trigger").notNull(),
+  outcome: text("outcome", { enum: ["success", "failed"] }).notNull(),
+  // One line per action, in the order they ran
+  details: jsonb("details").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Time-based rules the scheduler applies to a business's tickets. A rule is off while its hours are null.
+export const timeRuleSettings = pgTable("time_rule_settings", {
+  id: serial("id").primaryKey(),
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id).notNull().unique(),
+  // Close resolved tickets the customer hasn't replied to in this long
+  autoCloseAfterHours: integer("auto_close_after_hours"),
+  // Remind the customer when they haven't answered staff in this long
+  customerReminderAfterHours: integer("customer_reminder_after_hours"),
+  customerReminderMessage: text("customer_reminder_message"),
+  // Act on claimed tickets whose customer has waited this long for an agent
+  agentIdleAfterHours: integer("agent_idle_after_hours"),
+  agentIdleAction: text("agent_idle_action", { enum: ["alert", "reopen"] }).default("alert").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Background work queued for the in-process workers in server/jobs.ts
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().default({}).notNull(),
+  // Null for jobs that don't belong to one business, like the time rule scheduler
+  businessProfileId: integer("business_profile_id").references(() => businessProfiles.id),
+  // "dead" jobs ran out of attempts and wait for someone to inspect and retry them
+  status: text("status", {
+    enum: ["pending", "running", "completed", "dead"]
+  }).default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
 // Relations Definitions
 // ===================
 
@@ -148,7 +431,10 @@ export const businessProfilesRelations = relations(businessProfiles, ({ one, man
   }),
   employees: many(businessEmployees),
   tickets: many(tickets),
-  invitations: many(employeeInvitations)
+  invitations: many(employeeInvitations),
+  slaPolicies: many(slaPolicies),
+  routingSettings: one(routingSettings),
+  timeRuleSettings: one(timeRuleSettings)
 }));
 
 export const businessEmployeesRelations = relations(businessEmployees, ({ one }) => ({
@@ -173,6 +459,14 @@ export const employeeInvitationsRelations = relations(employeeInvitations, ({ on
   })
 }));
 
+export const slaPoliciesRelations = relations(slaPolicies, ({ one, many }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [slaPolicies.businessProfileId],
+    references: [businessProfiles.id]
+  }),
+  tickets: many(tickets)
+}));
+
 export const ticketsRelations = relations(tickets, ({ one, many }) => ({
   customer: one(users, {
     fields: [tickets.customerId],
@@ -194,10 +488,18 @@ export const ticketsRelations = relations(tickets, ({ one, many }) => ({
     fields: [tickets.previousAssigneeId],
     references: [users.id]
   }),
+  slaPolicy: one(slaPolicies, {
+    fields: [tickets.slaPolicyId],
+    references: [slaPolicies.id]
+  }),
   messages: many(messages),
   notes: many(ticketNotes),
   feedback: many(ticketFeedback),
-  escalations: many(ticketEscalations)
+  escalations: many(ticketEscalations),
+  history: many(ticketHistory),
+  assignments: many(ticketAssignments),
+  transfers: many(ticketTransfers),
+  attachments: many(attachments)
 }));
 
 export const ticketFeedbackRelations = relations(ticketFeedback, ({ one }) => ({
@@ -218,7 +520,7 @@ export const ticketNotesRelations = relations(ticketNotes, ({ one }) => ({
   })
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
   sender: one(users, {
     fields: [messages.senderId],
     references: [users.id]
@@ -230,6 +532,19 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   ticket: one(tickets, {
     fields: [messages.ticketId],
     references: [tickets.id]
+  }),
+  attachments: many(attachments),
+  edits: many(messageEdits)
+}));
+
+export const messageEditsRelations = relations(messageEdits, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageEdits.messageId],
+    references: [messages.id]
+  }),
+  editedBy: one(users, {
+    fields: [messageEdits.editedById],
+    references: [users.id]
   })
 }));
 
@@ -263,6 +578,73 @@ export const ticketEscalationsRelations = relations(ticketEscalations, ({ one })
   })
 }));
 
+export const routingSettingsRelations = relations(routingSettings, ({ one }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [routingSettings.businessProfileId],
+    references: [businessProfiles.id]
+  }),
+  lastAssignedEmployee: one(users, {
+    fields: [routingSettings.lastAssignedEmployeeId],
+    references: [users.id]
+  })
+}));
+
+export const ticketAssignmentsRelations = relations(ticketAssignments, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [ticketAssignments.ticketId],
+    references: [tickets.id]
+  }),
+  assignee: one(users, {
+    fields: [ticketAssignments.assigneeId],
+    references: [users.id]
+  })
+}));
+
+export const ticketTransfersRelations = relations(ticketTransfers, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [ticketTransfers.ticketId],
+    references: [tickets.id]
+  }),
+  fromAssignee: one(users, {
+    fields: [ticketTransfers.fromAssigneeId],
+    references: [users.id]
+  }),
+  toAssignee: one(users, {
+    fields: [ticketTransfers.toAssigneeId],
+    references: [users.id]
+  }),
+  transferredBy: one(users, {
+    fields: [ticketTransfers.transferredById],
+    references: [users.id]
+  })
+}));
+
+export const ticketHistoryRelations = relations(ticketHistory, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [ticketHistory.ticketId],
+    references: [tickets.id]
+  }),
+  changedBy: one(users, {
+    fields: [ticketHistory.changedById],
+    references: [users.id]
+  })
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [attachments.ticketId],
+    references: [tickets.id]
+  }),
+  message: one(messages, {
+    fields: [attachments.messageId],
+    references: [messages.id]
+  }),
+  uploader: one(users, {
+    fields: [attachments.uploaderId],
+    references: [users.id]
+  })
+}));
+
 export const directMessagesRelations = relations(directMessages, ({ one }) => ({
   sender: one(users, {
     fields: [directMessages.senderId],
@@ -278,6 +660,100 @@ export const directMessagesRelations = relations(directMessages, ({ one }) => ({
   })
 }));
 
+export const teamChannelsRelations = relations(teamChannels, ({ one, many }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [teamChannels.businessProfileId],
+    references: [businessProfiles.id]
+  }),
+  createdBy: one(users, {
+    fields: [teamChannels.createdById],
+    references: [users.id]
+  }),
+  members: many(teamChannelMembers),
+  messages: many(teamChannelMessages)
+}));
+
+export const teamChannelMembersRelations = relations(teamChannelMembers, ({ one }) => ({
+  channel: one(teamChannels, {
+    fields: [teamChannelMembers.channelId],
+    references: [teamChannels.id]
+  }),
+  user: one(users, {
+    fields: [teamChannelMembers.userId],
+    references: [users.id]
+  })
+}));
+
+export const teamChannelMessagesRelations = relations(teamChannelMessages, ({ one }) => ({
+  channel: one(teamChannels, {
+    fields: [teamChannelMessages.channelId],
+    references: [teamChannels.id]
+  }),
+  sender: one(users, {
+    fields: [teamChannelMessages.senderId],
+    references: [users.id]
+  })
+}));
+
+export const replyTemplatesRelations = relations(replyTemplates, ({ one }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [replyTemplates.businessProfileId],
+    references: [businessProfiles.id]
+  }),
+  createdBy: one(users, {
+    fields: [replyTemplates.createdById],
+    references: [users.id]
+  })
+}));
+
+export const macrosRelations = relations(macros, ({ one }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [macros.businessProfileId],
+    references: [businessProfiles.id]
+  }),
+  createdBy: one(users, {
+    fields: [macros.createdById],
+    references: [users.id]
+  })
+}));
+
+export const automationRulesRelations = relations(automationRules, ({ one, many }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [automationRules.businessProfileId],
+    references: [businessProfiles.id]
+  }),
+  createdBy: one(users, {
+    fields: [automationRules.createdById],
+    references: [users.id]
+  }),
+  runs: many(automationRuns)
+}));
+
+export const automationRunsRelations = relations(automationRuns, ({ one }) => ({
+  rule: one(automationRules, {
+    fields: [automationRuns.ruleId],
+    references: [automationRules.id]
+  }),
+  ticket: one(tickets, {
+    fields: [automationRuns.ticketId],
+    references: [tickets.id]
+  })
+}));
+
+export const timeRuleSettingsRelations = relations(timeRuleSettings, ({ one }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [timeRuleSettings.businessProfileId],
+    references: [businessProfiles.id]
+  })
+}));
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  businessProfile: one(businessProfiles, {
+    fields: [jobs.businessProfileId],
+    references: [businessProfiles.id]
+  })
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   customerTickets: many(tickets, { relationName: "customer" }),
   businessTickets: many(tickets, { relationName: "businessProfile" }),
@@ -313,21 +789,55 @@ export const selectBusinessProfileSchema = createSelectSchema(businessProfiles);
 
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
 export type BusinessProfile = typeof businessProfiles.$inferSelect;
 export type NewBusinessProfile = typeof businessProfiles.$inferInsert;
 export type BusinessEmployee = typeof businessEmployees.$inferSelect;
 export type NewBusinessEmployee = typeof businessEmployees.$inferInsert;
 export type EmployeeInvitation = typeof employeeInvitations.$inferSelect;
 export type NewEmployeeInvitation = typeof employeeInvitations.$inferInsert;
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type NewSlaPolicy = typeof slaPolicies.$inferInsert;
 export type Ticket = typeof tickets.$inferSelect;
 export type NewTicket = typeof tickets.$inferInsert;
 export type TicketNote = typeof ticketNotes.$inferSelect;
 export type NewTicketNote = typeof ticketNotes.$inferInsert;
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type NewMessageEdit = typeof messageEdits.$inferInsert;
 export type TicketFeedback = typeof ticketFeedback.$inferSelect;
 export type NewTicketFeedback = typeof ticketFeedback.$inferInsert;
 export type TicketEscalation = typeof ticketEscalations.$inferSelect;
 export type NewTicketEscalation = typeof ticketEscalations.$inferInsert;
+export type RoutingSettings = typeof routingSettings.$inferSelect;
+export type NewRoutingSettings = typeof routingSettings.$inferInsert;
+export type TicketAssignment = typeof ticketAssignments.$inferSelect;
+export type NewTicketAssignment = typeof ticketAssignments.$inferInsert;
+export type TicketTransfer = typeof ticketTransfers.$inferSelect;
+export type NewTicketTransfer = typeof ticketTransfers.$inferInsert;
+export type TicketHistory = typeof ticketHistory.$inferSelect;
+export type NewTicketHistory = typeof ticketHistory.$inferInsert;
+export type Attachment = typeof attachments.$inferSelect;
+export type NewAttachment = typeof attachments.$inferInsert;
 export type DirectMessage = typeof directMessages.$inferSelect;
-export type NewDirectMessage = typeof directMessages.$inferInsert;
\ No newline at end of file
+export type NewDirectMessage = typeof directMessages.$inferInsert;
+export type TeamChannel = typeof teamChannels.$inferSelect;
+export type NewTeamChannel = typeof teamChannels.$inferInsert;
+export type TeamChannelMember = typeof teamChannelMembers.$inferSelect;
+export type NewTeamChannelMember = typeof teamChannelMembers.$inferInsert;
+export type TeamChannelMessage = typeof teamChannelMessages.$inferSelect;
+export type NewTeamChannelMessage = typeof teamChannelMessages.$inferInsert;
+export type ReplyTemplate = typeof replyTemplates.$inferSelect;
+export type NewReplyTemplate = typeof replyTemplates.$inferInsert;
+export type Macro = typeof macros.$inferSelect;
+export type NewMacro = typeof macros.$inferInsert;
+export type AutomationRule = typeof automationRules.$inferSelect;
+export type NewAutomationRule = typeof automationRules.$inferInsert;
+export type AutomationRun = typeof automationRuns.$inferSelect;
+export type NewAutomationRun = typeof automationRuns.$inferInsert;
+export type TimeRuleSettings = typeof timeRuleSettings.$inferSelect;
+export type NewTimeRuleSettings = typeof timeRuleSettings.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
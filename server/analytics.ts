@@ -0,0 +1,222 @@
+import type { Request } from "express";
+import { sql, type SQL } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { tickets as ticketsTable } from "@db/schema";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export interface AnalyticsFilters {
+  from: string | null;
+  to: string | null;
+  category: string | null;
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+// Validate the from/to/category query string shared by every analytics endpoint
+export function parseAnalyticsFilters(query: Request['query']): { error: string } | { values: AnalyticsFilters } {
+  // Repeated or nested parameters come through as null and fail validation
+  const single = (value: unknown) => value === undefined || typeof value === 'string' ? value : null;
+  const from = single(query.from);
+  const to = single(query.to);
+  const category = single(query.category);
+
+  for (const date of [from, to]) {
+    if (date === null || (date !== undefined && isNaN(Date.parse(date)))) {
+      return { error: "Dates must be valid ISO dates" };
+    }
+  }
+
+  if (from && to && new Date(from) > new Date(to)) {
+    return { error: "Start date must be before end date" };
+  }
+
+  const categories: readonly string[] = ticketsTable.category.enumValues;
+  if (category === null || (category !== undefined && !categories.includes(category))) {
+    return { error: "Invalid category" };
+  }
+
+  // A bare end date includes that whole day
+  let end = to ? new Date(to) : null;
+  if (end && to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    end = new Date(end.getTime() + DAY - 1);
+  }
+
+  return {
+    values: {
+      from: from ? new Date(from).toISOString() : null,
+      to: end ? end.toISOString() : null,
+      category: category ?? null
+    }
+  };
+}
+
+// Conditions selecting the tickets, aliased "t", created within the filters: the population every metric is computed over
+function ticketScope(businessProfileId: number, filters: AnalyticsFilters) {
+  const conditions = [sql`t.business_profile_id = ${businessProfileId}`];
+
+  if (filters.from) conditions.push(sql`t.created_at >= ${filters.from}`);
+  if (filters.to) conditions.push(sql`t.created_at <= ${filters.to}`);
+  if (filters.category) conditions.push(sql`t.category = ${filters.category}`);
+
+  return sql.join(conditions, sql` and `);
+}
+
+// The first reply not sent by the customer on each ticket, and how many minutes after creation it came
+function firstResponses(scope: SQL) {
+  return sql`
+    select distinct on (t.id) t.id as ticket_id, m.sender_id,
+           extract(epoch from (m.created_at - t.created_at)) / 60 as minutes
+    from tickets t
+    join messages m on m.ticket_id = t.id
+    where ${scope} and m.sender_id::text <> t.customer_id::text
+    order by t.id, m.created_at
+  `;
+}
+
+async function getTicketCounts(scope: SQL) {
+  const rows = await db.execute(sql`
+    select t.category, t.priority, count(*)::int as total,
+           (count(*) filter (where t.status = 'resolved'))::int as resolved
+    from tickets t
+    where ${scope}
+    group by t.category, t.priority
+  `);
+
+  return rows as unknown as { category: string; priority: string; total: number; resolved: number }[];
+}
+
+function countBy(counts: Awaited<ReturnType<typeof getTicketCounts>>, key: 'category' | 'priority', values: readonly string[]) {
+  return values.map(value => ({
+    [key]: value,
+    count: sum(counts.filter(row => row[key] === value).map(row => row.total))
+  }));
+}
+
+export async function getTicketMetrics(businessProfileId: number, filters: AnalyticsFilters) {
+  const scope = ticketScope(businessProfileId, filters);
+
+  const [counts, [resolution], [firstResponse]] = await Promise.all([
+    getTicketCounts(scope),
+    // Minutes from creation to the most recent move to resolved, for tickets that are resolved now
+    db.execute(sql`
+      select avg(extract(epoch from (r.resolved_at - t.created_at)) / 60)::float8 as minutes
+      from tickets t
+      join lateral (
+        select max(h.created_at) as resolved_at
+        from ticket_history h
+        where h.ticket_id = t.id and h.field = 'status' and h.to_value = 'resolved'
+      ) r on r.resolved_at is not null
+      where ${scope} and t.status = 'resolved'
+    `),
+    db.execute(sql`select avg(minutes)::float8 as minutes from (${firstResponses(scope)}) responses`)
+  ]);
+
+  return {
+    totalTickets: sum(counts.map(row => row.total)),
+    resolvedTickets: sum(counts.map(row => row.resolved)),
+    averageResolutionTime: Number(resolution?.minutes ?? 0),
+    averageFirstResponseTime: Number(firstResponse?.minutes ?? 0),
+    ticketsByCategory: countBy(counts, 'category', ticketsTable.category.enumValues),
+    ticketsByPriority: countBy(counts, 'priority', ticketsTable.priority.enumValues)
+  };
+}
+
+export async function getFeedbackMetrics(businessProfileId: number, filters: AnalyticsFilters) {
+  const scope = ticketScope(businessProfileId, filters);
+
+  const [distribution, overTime] = await Promise.all([
+    db.execute(sql`
+      select f.rating, count(*)::int as count
+      from ticket_feedback f
+      join tickets t on t.id = f.ticket_id
+      where ${scope}
+      group by f.rating
+    `),
+    // Average rating per day the feedback was left
+    db.execute(sql`
+      select to_char(f.created_at, 'YYYY-MM-DD') as date, round(avg(f.rating), 2)::float8 as rating
+      from ticket_feedback f
+      join tickets t on t.id = f.ticket_id
+      where ${scope}
+      group by 1
+      order by 1
+    `)
+  ]);
+
+  const ratingCounts = distribution as unknown as { rating: number; count: number }[];
+  const totalFeedback = sum(ratingCounts.map(row => row.count));
+
+  return {
+    averageRating: totalFeedback ? sum(ratingCounts.map(row => row.rating * row.count)) / totalFeedback : 0,
+    totalFeedback,
+    ratingDistribution: [1, 2, 3, 4, 5].map(rating => ({
+      rating,
+      count: ratingCounts.find(row => row.rating === rating)?.count ?? 0
+    })),
+    feedbackOverTime: overTime as unknown as { date: string; rating: number }[]
+  };
+}
+
+export async function getEmployeeMetrics(businessProfileId: number, filters: AnalyticsFilters) {
+  const { data: employees, error } = await supabase
+    .from('business_employees')
+    .select(`
+      employee:users!employee_id(
+        id,
+        username
+      )
+    `)
+    .eq('business_profile_id', businessProfileId)
+    .eq('is_active', true)
+    .returns<{ employee: { id: number; username: string } }[]>();
+
+  if (error) throw error;
+
+  const scope = ticketScope(businessProfileId, filters);
+
+  const [counts, responders, resolvers] = await Promise.all([
+    getTicketCounts(scope),
+    db.execute(sql`
+      select sender_id, count(*)::int as tickets, avg(minutes)::float8 as minutes
+      from (${firstResponses(scope)}) responses
+      group by sender_id
+    `),
+    db.execute(sql`
+      select t.claimed_by_id, count(*)::int as tickets
+      from tickets t
+      where ${scope} and t.status = 'resolved' and t.claimed_by_id is not null
+      group by t.claimed_by_id
+    `)
+  ]);
+
+  const responseTimes = responders as unknown as { sender_id: number | string; tickets: number; minutes: number }[];
+  const resolvedBy = resolvers as unknown as { claimed_by_id: number | string; tickets: number }[];
+
+  const totalTickets = sum(counts.map(row => row.total));
+  const resolvedTickets = sum(counts.map(row => row.resolved));
+  const answeredTickets = sum(responseTimes.map(row => row.tickets));
+
+  const ticketsPerEmployee = (employees || []).map(({ employee }) => ({
+    employee: employee.username,
+    tickets: resolvedBy.find(row => Number(row.claimed_by_id) === employee.id)?.tickets ?? 0,
+    averageResponseTime: responseTimes.find(row => Number(row.sender_id) === employee.id)?.minutes ?? 0
+  }));
+
+  // Equal parts share of tickets answered and share of tickets resolved
+  const collaborationScore = totalTickets
+    ? (answeredTickets / totalTickets + resolvedTickets / totalTickets) / 2
+    : 0;
+
+  return {
+    totalActiveEmployees: employees?.length || 0,
+    ticketsPerEmployee,
+    averageResponseTime: answeredTickets
+      ? sum(responseTimes.map(row => row.minutes * row.tickets)) / answeredTickets
+      : 0,
+    collaborationScore
+  };
+}
@@ -0,0 +1,164 @@
+import { supabase } from "@db/index";
+
+interface Candidate {
+  id: number;
+  username: string;
+  skills: string[];
+  openTickets: number;
+}
+
+// A business_employees row joined to the employee's user
+interface EmployeeSkillsRow {
+  skills: string[] | null;
+  employee: { id: number; username: string };
+}
+
+// Record an assignment decision, even when nobody could take the ticket
+async function logAssignment(ticketId: number, assigneeId: number | null, method: string, reason: string) {
+  const { error } = await supabase
+    .from('ticket_assignments')
+    .insert({
+      ticket_id: ticketId,
+      assignee_id: assigneeId,
+      method,
+      reason,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error logging ticket assignment:', error);
+  }
+}
+
+// Active employees of a business with how many unresolved tickets each currently holds
+export async function getAssignmentCandidates(businessProfileId: number): Promise<Candidate[]> {
+  const { data: employees, error } = await supabase
+    .from('business_employees')
+    .select(`
+      skills,
+      employee:users!employee_id(
+        id,
+        username
+      )
+    `)
+    .eq('business_profile_id', businessProfileId)
+    .eq('is_active', true)
+    .returns<EmployeeSkillsRow[]>();
+
+  if (error) throw error;
+  if (!employees?.length) return [];
+
+  const ids = employees.map(({ employee }) => employee.id);
+
+  const { data: openTickets, error: ticketsError } = await supabase
+    .from('tickets')
+    .select('claimed_by_id')
+    .eq('business_profile_id', businessProfileId)
+    .neq('status', 'resolved')
+    .in('claimed_by_id', ids);
+
+  if (ticketsError) throw ticketsError;
+
+  return employees
+    .map(({ employee, skills }) => ({
+      id: employee.id,
+      username: employee.username,
+      skills: skills || [],
+      openTickets: (openTickets || []).filter(ticket => ticket.claimed_by_id === employee.id).length
+    }))
+    .sort((a, b) => a.id - b.id);
+}
+
+// Assign a newly created ticket according to the business's routing settings,
+// preferring employees skilled in the ticket's category when any are available.
+// Returns the updated ticket, or null when the ticket was left in the pool.
+export async function autoAssignTicket(ticket: { id: number; business_profile_id: number; category: string }) {
+  try {
+    const { data: settings } = await supabase
+      .from('routing_settings')
+      .select('*')
+      .eq('business_profile_id', ticket.business_profile_id)
+      .single();
+
+    if (!settings || settings.strategy === 'manual') {
+      return null;
+    }
+
+    const method = settings.strategy;
+    const candidates = await getAssignmentCandidates(ticket.business_profile_id);
+
+    if (candidates.length === 0) {
+      await logAssignment(ticket.id, null, method, "No active employees available");
+      return null;
+    }
+
+    const available = settings.max_open_tickets
+      ? candidates.filter(candidate => candidate.openTickets < settings.max_open_tickets)
+      : candidates;
+
+    if (available.length === 0) {
+      await logAssignment(ticket.id, null, method,
+        `All ${candidates.length} active employees are at capacity (${settings.max_open_tickets} open tickets)`);
+      return null;
+    }
+
+    const category = ticket.category.replace(/_/g, ' ');
+    const skilled = available.filter(candidate => candidate.skills.includes(ticket.category));
+    const pool = skilled.length > 0 ? skilled : available;
+    const poolDescription = skilled.length > 0
+      ? `${pool.length} available employees skilled in ${category}`
+      : candidates.some(candidate => candidate.skills.includes(ticket.category))
+        ? `the general pool of ${pool.length} (no ${category} specialist available)`
+        : `${pool.length} available employees`;
+
+    let assignee: Candidate;
+    let reason: string;
+
+    if (method === 'least_loaded') {
+      assignee = pool.reduce((least, candidate) =>
+        candidate.openTickets < least.openTickets ? candidate : least);
+      reason = `Fewest open tickets (${assignee.openTickets}) among ${poolDescription}`;
+    } else {
+      // Next employee after the last one assigned, wrapping around
+      assignee = pool.find(candidate => candidate.id > (settings.last_assigned_employee_id ?? 0))
+        ?? pool[0];
+      reason = `Next in rotation among ${poolDescription}`;
+    }
+
+    if (settings.max_open_tickets) {
+      reason += `, ${assignee.openTickets}/${settings.max_open_tickets} open before assignment`;
+    }
+
+    const now = new Date().toISOString();
+
+    const { data: updatedTicket, error } = await supabase
+      .from('tickets')
+      .update({
+        claimed_by_id: assignee.id,
+        claimed_at: now,
+        updated_at: now
+      })
+      .eq('id', ticket.id)
+      .is('claimed_by_id', null)
+      .select()
+      .single();
+
+    if (error || !updatedTicket) {
+      console.error('Error auto-assigning ticket:', error);
+      return null;
+    }
+
+    await supabase
+      .from('routing_settings')
+      .update({ last_assigned_employee_id: assignee.id })
+      .eq('id', settings.id);
+
+    await logAssignment(ticket.id, assignee.id, method, `Assigned to ${assignee.username}: ${reason}`);
+
+    return updatedTicket;
+  } catch (error) {
+    // Assignment is best effort; the ticket stays in the pool for manual claiming
+    console.error('Error auto-assigning ticket:', error);
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where attachment bytes live. The database only keeps the key returned by save().
+export interface AttachmentStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+// Stores files under a directory on the server's own disk
+export class LocalDiskStorage implements AttachmentStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by us, but never let one escape the storage directory
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string) {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async remove(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: AttachmentStorage | null = null;
+
+// Pick the backend from ATTACHMENT_STORAGE. Only local disk exists today.
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) {
+    const backend = process.env.ATTACHMENT_STORAGE || 'local';
+
+    if (backend !== 'local') {
+      throw new Error(`Unknown attachment storage backend: ${backend}`);
+    }
+
+    storage = new LocalDiskStorage(process.env.ATTACHMENTS_DIR || 'uploads');
+  }
+
+  return storage;
+}
@@ -0,0 +1,291 @@
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import { randomUUID } from "crypto";
+import path from "path";
+import { supabase } from "@db/index";
+import { getAttachmentStorage } from "./attachment-storage";
+import { getBusinessRole } from "./permissions";
+import { ensureJobScheduled, registerJobHandler } from "./jobs";
+
+const MAX_ATTACHMENT_BYTES = Number(process.env.MAX_ATTACHMENT_MB || 10) * 1024 * 1024;
+
+const CLEANUP_JOB = 'attachments.cleanup';
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+const CLEANUP_BATCH_SIZE = 500;
+
+// Uploads not sent with a ticket or message within this long are deleted
+const UNLINKED_UPLOAD_TTL = 24 * 60 * 60 * 1000;
+
+const ALLOWED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+];
+
+// Types the browser may render in place instead of downloading
+const INLINE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Read the request body as raw bytes, reporting oversized uploads as JSON errors
+const readUpload = express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES });
+
+function rawBody(req: Request, res: Response, next: NextFunction) {
+  readUpload(req, res, (err?: any) => {
+    if (err) {
+      return res.status(err.status === 413 ? 413 : 400).json({
+        error: err.status === 413
+          ? `Attachments can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+          : "Could not read upload"
+      });
+    }
+    next();
+  });
+}
+
+// Reject anonymous uploads before any of the body is read
+function requireUploader(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  next();
+}
+
+// Whether the current user can see a ticket: its customer, or anyone with a role in its business
+async function canAccessTicket(req: Request, ticketId: number) {
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select('customer_id, business_profile_id')
+    .eq('id', ticketId)
+    .single();
+
+  if (!ticket || !req.user) return false;
+  if (ticket.customer_id === req.user.id) return true;
+  return !!(await getBusinessRole(req, ticket.business_profile_id));
+}
+
+// Attach previously uploaded files to a ticket and optionally one of its messages.
+// Only the uploader's own, not yet linked attachments are claimed.
+export async function linkAttachments(
+  attachmentIds: unknown,
+  uploaderId: number,
+  target: { ticketId: number; messageId?: number }
+) {
+  if (!Array.isArray(attachmentIds) || attachmentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .update({
+      ticket_id: target.ticketId,
+      message_id: target.messageId ?? null
+    })
+    .in('id', attachmentIds.filter(id => Number.isInteger(id)))
+    .eq('uploader_id', uploaderId)
+    .is('ticket_id', null)
+    .select('id, file_name, mime_type, size, message_id, created_at');
+
+  if (error) {
+    console.error('Error linking attachments:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Delete the files and rows of uploads that were never sent. One batch per run; the next run picks up the rest.
+async function removeUnlinkedUploads() {
+  const { data: uploads, error } = await supabase
+    .from('attachments')
+    .select('id, storage_key')
+    .is('ticket_id', null)
+    .lt('created_at', new Date(Date.now() - UNLINKED_UPLOAD_TTL).toISOString())
+    .limit(CLEANUP_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!uploads?.length) return;
+
+  for (const upload of uploads) {
+    await getAttachmentStorage().remove(upload.storage_key);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('attachments')
+    .delete()
+    .in('id', uploads.map(upload => upload.id))
+    .is('ticket_id', null);
+
+  if (deleteError) throw deleteError;
+}
+
+// Queue the first cleanup of unsent uploads; each run queues the next one
+export function startAttachmentCleanup() {
+  ensureJobScheduled(CLEANUP_JOB, new Date())
+    .catch(error => console.error('Error scheduling attachment cleanup:', error));
+}
+
+export function setupAttachments(app: Express) {
+  registerJobHandler(CLEANUP_JOB, async () => {
+    try {
+      await removeUnlinkedUploads();
+    } finally {
+      await ensureJobScheduled(CLEANUP_JOB, new Date(Date.now() + CLEANUP_INTERVAL));
+    }
+  });
+
+  // Upload a file. The body is the raw file and ?name= carries the original file name.
+  app.post("/api/attachments", requireUploader, rawBody, async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const mimeType = (req.get('content-type') || '').split(';')[0].trim().toLowerCase();
+      const fileName = typeof req.query.name === 'string' && req.query.name.trim()
+        ? path.basename(req.query.name.trim())
+        : 'attachment';
+
+      if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+        return res.status(415).json({ error: "This file type is not supported" });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "File is empty" });
+      }
+
+      const storageKey = `${new Date().toISOString().slice(0, 10)}/${randomUUID()}${path.extname(fileName).toLowerCase()}`;
+      await getAttachmentStorage().save(storageKey, req.body);
+
+      const { data: attachment, error } = await supabase
+        .from('attachments')
+        .insert({
+          uploader_id: req.user.id,
+          file_name: fileName,
+          mime_type: mimeType,
+          size: req.body.length,
+          storage_key: storageKey,
+          created_at: new Date().toISOString()
+        })
+        .select('id, file_name, mime_type, size, created_at')
+        .single();
+
+      if (error) {
+        console.error('Error saving attachment:', error);
+        await getAttachmentStorage().remove(storageKey);
+        return res.status(500).json({ error: "Failed to upload attachment" });
+      }
+
+      res.json(attachment);
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      res.status(500).json({ error: "Failed to upload attachment" });
+    }
+  });
+
+  // Serve an attachment to its uploader or anyone who can see its ticket
+  app.get("/api/attachments/:id/download", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const { data: attachment } = await supabase
+        .from('attachments')
+        .select('*')
+        .eq('id', parseInt(req.params.id))
+        .single();
+
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      const hasAccess = attachment.uploader_id === req.user.id ||
+        (attachment.ticket_id && await canAccessTicket(req, attachment.ticket_id));
+
+      if (!hasAccess) {
+        return res.status(403).json({ error: "No access to this attachment" });
+      }
+
+      const data = await getAttachmentStorage().read(attachment.storage_key);
+      const disposition = INLINE_MIME_TYPES.includes(attachment.mime_type) ? 'inline' : 'attachment';
+
+      res.setHeader('Content-Type', attachment.mime_type);
+      res.setHeader('Content-Length', data.length);
+      res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(data);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      res.status(500).json({ error: "Failed to download attachment" });
+    }
+  });
+
+  // List every attachment on a ticket, including those sent in its chat
+  app.get("/api/tickets/:id/attachments", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const ticketId = parseInt(req.params.id);
+
+      if (!(await canAccessTicket(req, ticketId))) {
+        return res.status(403).json({ error: "No access to this ticket" });
+      }
+
+      const { data: attachments, error } = await supabase
+        .from('attachments')
+        .select('id, file_name, mime_type, size, message_id, created_at')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching attachments:', error);
+        return res.status(500).json({ error: "Failed to fetch attachments" });
+      }
+
+      res.json(attachments);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      res.status(500).json({ error: "Failed to fetch attachments" });
+    }
+  });
+
+  // Attach uploaded files to a chat message the current user sent
+  app.post("/api/messages/:id/attachments", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const { data: message } = await supabase
+        .from('messages')
+        .select('id, ticket_id, sender_id')
+        .eq('id', parseInt(req.params.id))
+        .single();
+
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      if (message.sender_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only attach files to your own messages" });
+      }
+
+      if (!message.ticket_id) {
+        return res.status(400).json({ error: "Attachments are only supported on ticket messages" });
+      }
+
+      const attachments = await linkAttachments(req.body.attachmentIds, req.user.id, {
+        ticketId: message.ticket_id,
+        messageId: message.id
+      });
+
+      res.json(attachments);
+    } catch (error) {
+      console.error('Error attaching files to message:', error);
+      res.status(500).json({ error: "Failed to attach files" });
+    }
+  });
+}
@@ -1,7 +1,8 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import session from "express-session";
-import createMemoryStore from "memorystore";
+import { createHash } from "crypto";
 import { supabase } from "@db/index";
+import { SupabaseSessionStore } from "./session-store";
 
 declare module 'express-session' {
   interface SessionData {
@@ -11,24 +12,36 @@ declare module 'express-session' {
       role: 'business' | 'customer' | 'employee';
       supabaseId: string;
     };
+    userAgent?: string;
+    ipAddress?: string;
   }
 }
 
+// How long a session lasts without activity, in hours
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 24 * 7;
+
+// Remember which device a session was started from so users can tell their sessions apart
+function recordClient(req: Request) {
+  req.session.userAgent = req.get('user-agent');
+  req.session.ipAddress = req.ip;
+}
+
 export function setupAuth(app: Express) {
-  const MemoryStore = createMemoryStore(session);
+  const ttl = SESSION_TTL_HOURS * 60 * 60 * 1000;
+  const store = new SupabaseSessionStore(ttl);
   const sessionSettings: session.SessionOptions = {
     secret: process.env.REPL_ID || "porygon-supremacy",
     resave: false,
     saveUninitialized: false,
-    cookie: {},
-    store: new MemoryStore({
-      checkPeriod: 86400000
-    }),
+    // Keep extending the session while it is in use
+    rolling: true,
+    cookie: { maxAge: ttl },
+    store,
   };
 
   if (app.get("env") === "production") {
     app.set("trust proxy", 1);
-    sessionSettings.cookie = { secure: true };
+    sessionSettings.cookie = { maxAge: ttl, secure: true };
   }
 
   app.use(session(sessionSettings));
@@ -122,6 +135,7 @@ export function setupAuth(app: Express) {
         role: newUser.role,
         supabaseId: authUser.user.id
       };
+      recordClient(req);
 
       await new Promise<void>((resolve, reject) => {
         req.session.save((err) => {
@@ -181,6 +195,7 @@ export function setupAuth(app: Express) {
         role: user.role,
         supabaseId: authData.user.id
       };
+      recordClient(req);
 
       await new Promise<void>((resolve, reject) => {
         req.session.save((err) => {
@@ -227,4 +242,43 @@ export function setupAuth(app: Express) {
     }
     res.status(401).send("Not logged in");
   });
+  // List the current user's active sessions
+  app.get("/api/sessions", async (req, res) => {
+    try {
+      if (!req.session?.user) {
+        return res.status(401).send("Not logged in");
+      }
+
+      const sessions = await store.listUserSessions(req.session.user.id);
+
+      res.json(sessions.map(row => ({
+        // Never hand out raw session ids
+        id: createHash('sha256').update(row.sid).digest('hex').slice(0, 16),
+        current: row.sid === req.sessionID,
+        userAgent: row.user_agent,
+        ipAddress: row.ip_address,
+        createdAt: row.created_at,
+        lastActiveAt: row.updated_at,
+        expiresAt: row.expires_at
+      })));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      res.status(500).send("Failed to fetch sessions");
+    }
+  });
+
+  // Sign out of every session except the one making the request
+  app.post("/api/sessions/sign-out-others", async (req, res) => {
+    try {
+      if (!req.session?.user) {
+        return res.status(401).send("Not logged in");
+      }
+
+      const signedOut = await store.destroyOtherSessions(req.session.user.id, req.sessionID);
+      res.json({ message: "Signed out of other sessions", signedOut });
+    } catch (error) {
+      console.error('Error signing out other sessions:', error);
+      res.status(500).send("Failed to sign out other sessions");
+    }
+  });
 }
\ No newline at end of file
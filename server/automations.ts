@@ -0,0 +1,643 @@
+import type { Express, Request } from "express";
+import { supabase } from "@db/index";
+import {
+  automationRules,
+  tickets,
+  type AutomationAction,
+  type AutomationCondition
+} from "@db/schema";
+import { requireBusinessPermission, requireTicketPermission, type TicketRow } from "./permissions";
+import { MAX_MESSAGE_LENGTH } from "./message-content";
+import { computeSlaDueDates } from "./sla";
+import { autoAssignTicket } from "./assignment";
+import { loadTemplateContext, renderTemplate } from "./reply-templates";
+import { isActiveEmployee } from "./ticket-actions";
+import { incrementUnread } from "./unread";
+import { enqueueJob, registerJobHandler } from "./jobs";
+
+export type AutomationTrigger = typeof automationRules.trigger.enumValues[number];
+
+const TRIGGERS = automationRules.trigger.enumValues;
+const CONDITION_FIELDS: AutomationCondition['field'][] = ['category', 'priority', 'escalationLevel', 'customer', 'messageContent'];
+const CONDITION_OPERATORS: AutomationCondition['operator'][] = ['equals', 'not_equals', 'contains'];
+const ESCALATION_LEVELS = tickets.escalationLevel.enumValues;
+const PRIORITIES = tickets.priority.enumValues;
+
+const MAX_NAME_LENGTH = 100;
+
+const AUTOMATIONS_JOB = 'automations.run';
+
+// Queued by queueAutomations; the job runs the first trigger and queues the rest
+interface AutomationJob {
+  ticketId: number;
+  triggers: AutomationTrigger[];
+  message?: { content: string };
+}
+
+// What happened to a ticket that rules get to look at
+export interface AutomationEvent {
+  trigger: AutomationTrigger;
+  ticket: TicketRow;
+  // The customer message behind message_received
+  message?: { content: string };
+}
+
+// Who automated changes are attributed to, and what conditions compare against
+interface RunContext {
+  ownerId: number;
+  customerUsername: string;
+  messageContent: string;
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error);
+
+function matchesCondition(condition: AutomationCondition, ticket: TicketRow, context: RunContext) {
+  const actual = String({
+    category: ticket.category,
+    priority: ticket.priority,
+    escalationLevel: ticket.escalation_level,
+    customer: context.customerUsername,
+    messageContent: context.messageContent
+  }[condition.field] ?? '').toLowerCase();
+  const expected = condition.value.toLowerCase();
+
+  switch (condition.operator) {
+    case 'equals': return actual === expected;
+    case 'not_equals': return actual !== expected;
+    case 'contains': return actual.includes(expected);
+  }
+}
+
+// Fill placeholders the same way quick reply templates do, speaking as the assignee when there is one
+async function renderForTicket(content: string, ticket: TicketRow, context: RunContext) {
+  const { data: agent } = await supabase
+    .from('users')
+    .select('username')
+    .eq('id', ticket.claimed_by_id ?? context.ownerId)
+    .maybeSingle();
+
+  return renderTemplate(content, await loadTemplateContext(ticket, agent ?? undefined));
+}
+
+// Carry out one action. Returns the ticket as it now stands and a line for the run log.
+async function runAction(action: AutomationAction, ticket: TicketRow, context: RunContext): Promise<{ ticket: TicketRow; summary: string }> {
+  const now = new Date().toISOString();
+
+  switch (action.type) {
+    case 'assign': {
+      if (!action.assigneeId) {
+        if (ticket.claimed_by_id) {
+          return { ticket, summary: "Already assigned; left as is" };
+        }
+        const assigned = await autoAssignTicket(ticket);
+        return assigned
+          ? { ticket: assigned, summary: "Assigned using the routing settings" }
+          : { ticket, summary: "Routing settings found nobody to assign" };
+      }
+
+      if (action.assigneeId === ticket.claimed_by_id) {
+        return { ticket, summary: "Already assigned to that employee" };
+      }
+
+      if (!(await isActiveEmployee(ticket.business_profile_id, action.assigneeId))) {
+        throw new Error("Assignee is no longer an active employee");
+      }
+
+      const { data: updated, error } = await supabase
+        .from('tickets')
+        .update({
+          claimed_by_id: action.assigneeId,
+          claimed_at: now,
+          previous_assignee_id: ticket.claimed_by_id,
+          updated_at: now
+        })
+        .eq('id', ticket.id)
+        .select('*, assignee:users!claimed_by_id(username)')
+        .single();
+
+      if (error) throw error;
+      const { assignee, ...assignedTicket } = updated;
+      return { ticket: assignedTicket, summary: `Assigned to ${assignee?.username ?? `user ${action.assigneeId}`}` };
+    }
+
+    case 'set_priority': {
+      if (ticket.priority === action.priority) {
+        return { ticket, summary: `Priority already ${action.priority}` };
+      }
+
+      const { data: updated, error } = await supabase
+        .from('tickets')
+        .update({
+          priority: action.priority,
+          ...(await computeSlaDueDates(
+            ticket.business_profile_id,
+            action.priority,
+            ticket.category,
+            new Date(ticket.created_at)
+          )),
+          updated_at: now
+        })
+        .eq('id', ticket.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await supabase
+        .from('ticket_history')
+        .insert({
+          ticket_id: ticket.id,
+          changed_by_id: context.ownerId,
+          field: 'priority',
+          from_value: ticket.priority,
+          to_value: action.priority,
+          created_at: now
+        });
+
+      return { ticket: updated, summary: `Priority changed from ${ticket.priority} to ${action.priority}` };
+    }
+
+    case 'add_note': {
+      const { error } = await supabase
+        .from('ticket_notes')
+        .insert({
+          ticket_id: ticket.id,
+          author_id: context.ownerId,
+          content: await renderForTicket(action.content, ticket, context),
+          created_at: now
+        });
+
+      if (error) throw error;
+      return { ticket, summary: "Added an internal note" };
+    }
+
+    case 'send_reply': {
+      const { error } = await supabase
+        .from('messages')
+        .insert({
+          content: await renderForTicket(action.content, ticket, context),
+          ticket_id: ticket.id,
+          sender_id: ticket.claimed_by_id ?? context.ownerId,
+          receiver_id: ticket.customer_id,
+          status: 'sent',
+          sent_at: now,
+          created_at: now
+        });
+
+      if (error) throw error;
+      await incrementUnread(ticket.id, ticket.customer_id);
+      return { ticket, summary: "Sent a reply to the customer" };
+    }
+
+    case 'escalate': {
+      const toLevel = ESCALATION_LEVELS[ESCALATION_LEVELS.indexOf(ticket.escalation_level) + 1];
+
+      if (ticket.status === 'resolved') {
+        return { ticket, summary: "Ticket is resolved; not escalated" };
+      }
+
+      if (!toLevel) {
+        return { ticket, summary: "Already at the highest escalation level" };
+      }
+
+      const { data: updated, error } = await supabase
+        .from('tickets')
+        .update({
+          escalation_level: toLevel,
+          escalated_at: now,
+          escalated_by_id: context.ownerId,
+          escalation_reason: action.reason,
+          updated_at: now
+        })
+        .eq('id', ticket.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await supabase
+        .from('ticket_escalations')
+        .insert({
+          ticket_id: ticket.id,
+          from_level: ticket.escalation_level,
+          to_level: toLevel,
+          from_assignee_id: ticket.claimed_by_id,
+          to_assignee_id: ticket.claimed_by_id,
+          escalated_by_id: context.ownerId,
+          reason: action.reason,
+          created_at: now
+        });
+
+      return { ticket: updated, summary: `Escalated from ${ticket.escalation_level} to ${toLevel}` };
+    }
+  }
+}
+
+// Record a run in the ticket's automation log. Time-based rules log here too, without a rule id.
+export async function logRun(
+  rule: { id: number | null; name: string },
+  ticketId: number,
+  trigger: string,
+  outcome: 'success' | 'failed',
+  details: string[]
+) {
+  const { error } = await supabase
+    .from('automation_runs')
+    .insert({
+      rule_id: rule.id,
+      rule_name: rule.name,
+      ticket_id: ticketId,
+      trigger,
+      outcome,
+      details,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error logging automation run:', error);
+  }
+}
+
+// Run the business's active rules for this trigger in order. Later rules see the
+// changes made by earlier ones. Changes made here don't fire further triggers, so
+// rules can't set each other off in a loop. Returns the ticket as it ends up.
+// Throws only before any rule has acted, so the job running it can safely retry.
+async function runAutomations({ trigger, ticket, message }: AutomationEvent) {
+  const { data: rules, error } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .eq('business_profile_id', ticket.business_profile_id)
+    .eq('trigger', trigger)
+    .eq('is_active', true)
+    .order('position')
+    .order('id');
+
+  if (error) throw error;
+  if (!rules?.length) return ticket;
+
+  const [{ data: business, error: businessError }, { data: customer }] = await Promise.all([
+    supabase
+      .from('business_profiles')
+      .select('user_id')
+      .eq('id', ticket.business_profile_id)
+      .single(),
+    supabase
+      .from('users')
+      .select('username')
+      .eq('id', ticket.customer_id)
+      .maybeSingle()
+  ]);
+
+  if (businessError) throw businessError;
+
+  const context: RunContext = {
+    ownerId: business.user_id,
+    customerUsername: customer?.username ?? '',
+    messageContent: message?.content ?? (trigger === 'ticket_created' ? `${ticket.title}\n${ticket.description}` : '')
+  };
+
+  let current = ticket;
+
+  for (const rule of rules) {
+    const conditions: AutomationCondition[] = rule.conditions || [];
+    if (!conditions.every(condition => matchesCondition(condition, current, context))) continue;
+
+    const details: string[] = [];
+    let outcome: 'success' | 'failed' = 'success';
+
+    // Stop the rule at the first failing action; earlier actions stay applied
+    for (const action of (rule.actions || []) as AutomationAction[]) {
+      try {
+        const result = await runAction(action, current, context);
+        current = result.ticket;
+        details.push(result.summary);
+      } catch (actionError) {
+        console.error(`Error running automation rule ${rule.id}:`, actionError);
+        outcome = 'failed';
+        details.push(`Failed to ${action.type.replace(/_/g, ' ')}: ${errorMessage(actionError)}`);
+        break;
+      }
+    }
+
+    await logRun(rule, ticket.id, trigger, outcome, details);
+  }
+
+  return current;
+}
+
+// Run a ticket's automations in the background, one trigger after another.
+// The change that fired them has already been saved, so this never fails the request.
+// Returns the queued job, or null if it couldn't be saved.
+export async function queueAutomations(ticket: { id: number; business_profile_id: number }, triggers: AutomationTrigger[], message?: { content: string }) {
+  if (triggers.length === 0) return null;
+
+  const payload: AutomationJob = { ticketId: ticket.id, triggers, message };
+
+  return enqueueJob(AUTOMATIONS_JOB, payload, {
+    businessProfileId: ticket.business_profile_id
+  });
+}
+
+// Queue the change triggers for whichever of these fields were changed by a person
+export async function queueChangeAutomations(ticket: { id: number; business_profile_id: number }, changes: { field: string }[]) {
+  const triggers: AutomationTrigger[] = [];
+
+  if (changes.some(change => change.field === 'status')) triggers.push('status_changed');
+  if (changes.some(change => change.field === 'priority')) triggers.push('priority_changed');
+
+  await queueAutomations(ticket, triggers);
+}
+
+// Request bodies as plain objects, so their fields can be checked one at a time
+const asFields = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? { ...value } : {};
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+  allowed.includes(value as T);
+
+function parseCondition(body: unknown): AutomationCondition | null {
+  const condition = asFields(body);
+  if (!isOneOf(condition.field, CONDITION_FIELDS) || !isOneOf(condition.operator, CONDITION_OPERATORS)) return null;
+  if (typeof condition.value !== 'string' || !condition.value.trim()) return null;
+  return { field: condition.field, operator: condition.operator, value: condition.value.trim() };
+}
+
+function parseAction(body: unknown): AutomationAction | null {
+  const action = asFields(body);
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() && value.trim().length <= MAX_MESSAGE_LENGTH ? value.trim() : null;
+
+  switch (action.type) {
+    case 'assign': {
+      const assigneeId = action.assigneeId ? Number(action.assigneeId) : null;
+      return assigneeId === null || Number.isInteger(assigneeId) ? { type: 'assign', assigneeId } : null;
+    }
+    case 'set_priority':
+      return isOneOf(action.priority, PRIORITIES) ? { type: 'set_priority', priority: action.priority } : null;
+    case 'add_note':
+    case 'send_reply': {
+      const content = text(action.content);
+      return content ? { type: action.type, content } : null;
+    }
+    case 'escalate': {
+      const reason = text(action.reason);
+      return reason ? { type: 'escalate', reason } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function parseRuleBody(request: unknown) {
+  const body = asFields(request);
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { error: `Name is required and can be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const trigger = body.trigger;
+
+  if (!isOneOf(trigger, TRIGGERS)) {
+    return { error: "Invalid trigger" };
+  }
+
+  const conditions = (Array.isArray(body.conditions) ? body.conditions : []).map(parseCondition);
+  if (conditions.includes(null)) {
+    return { error: "Every condition needs a field, an operator and a value" };
+  }
+
+  const actions = (Array.isArray(body.actions) ? body.actions : []).map(parseAction);
+  if (actions.length === 0 || actions.includes(null)) {
+    return { error: "Add at least one action, and fill in every action completely" };
+  }
+
+  return {
+    values: {
+      name,
+      trigger,
+      conditions: conditions as AutomationCondition[],
+      actions: actions as AutomationAction[],
+      is_active: body.isActive !== false
+    }
+  };
+}
+
+async function loadRule(req: Request, ruleId: number) {
+  const { data: rule } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .eq('business_profile_id', req.access!.businessProfileId)
+    .maybeSingle();
+
+  return rule;
+}
+
+export function setupAutomations(app: Express) {
+  // Each job runs one trigger and then queues the rest. runAutomations only throws before
+  // any rule has acted, so a retry never repeats replies or notes from earlier triggers.
+  // The one exception is failing to queue the rest: the job is retried rather than
+  // dropping them, and this trigger's rules run again.
+  registerJobHandler<AutomationJob>(AUTOMATIONS_JOB, async ({ ticketId, triggers, message }) => {
+    const [trigger, ...remaining] = triggers;
+
+    const { data: ticket, error } = await supabase
+      .from('tickets')
+      .select('*')
+      .eq('id', ticketId)
+      .single();
+
+    if (error) throw error;
+
+    await runAutomations({ trigger, ticket, message });
+
+    if (remaining.length > 0 && !(await queueAutomations(ticket, remaining, message))) {
+      throw new Error(`Failed to queue ${remaining.join(', ')} automations for ticket ${ticketId}`);
+    }
+  });
+
+  app.get("/api/automations", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { data: rules, error } = await supabase
+        .from('automation_rules')
+        .select('*')
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .order('position')
+        .order('id');
+
+      if (error) {
+        console.error('Error fetching automation rules:', error);
+        return res.status(500).json({ error: "Failed to fetch automation rules" });
+      }
+
+      res.json(rules);
+    } catch (error) {
+      console.error('Error fetching automation rules:', error);
+      res.status(500).json({ error: "Failed to fetch automation rules" });
+    }
+  });
+
+  app.post("/api/automations", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { values, error: validationError } = parseRuleBody(req.body);
+
+      if (!values) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      // New rules run after the existing ones
+      const { data: last } = await supabase
+        .from('automation_rules')
+        .select('position')
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const now = new Date().toISOString();
+
+      const { data: rule, error } = await supabase
+        .from('automation_rules')
+        .insert({
+          ...values,
+          business_profile_id: req.access!.businessProfileId,
+          position: (last?.position ?? -1) + 1,
+          created_by_id: req.user!.id,
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating automation rule:', error);
+        return res.status(500).json({ error: "Failed to create automation rule" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      console.error('Error creating automation rule:', error);
+      res.status(500).json({ error: "Failed to create automation rule" });
+    }
+  });
+
+  // Reorder rules: ruleIds lists the business's rules in the order they should run
+  app.put("/api/automations/order", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { ruleIds } = req.body;
+
+      if (!Array.isArray(ruleIds)) {
+        return res.status(400).json({ error: "ruleIds must be an array" });
+      }
+
+      if (!ruleIds.every(Number.isInteger)) {
+        return res.status(400).json({ error: "Invalid rule ID" });
+      }
+
+      const results = await Promise.all(ruleIds.map((ruleId: number, position: number) =>
+        supabase
+          .from('automation_rules')
+          .update({ position })
+          .eq('id', ruleId)
+          .eq('business_profile_id', req.access!.businessProfileId)
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed) {
+        console.error('Error reordering automation rules:', failed.error);
+        return res.status(500).json({ error: "Failed to reorder automation rules" });
+      }
+
+      res.json({ message: "Rules reordered" });
+    } catch (error) {
+      console.error('Error reordering automation rules:', error);
+      res.status(500).json({ error: "Failed to reorder automation rules" });
+    }
+  });
+
+  app.put("/api/automations/:id", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const existing = await loadRule(req, parseInt(req.params.id));
+
+      if (!existing) {
+        return res.status(404).json({ error: "Automation rule not found" });
+      }
+
+      const { values, error: validationError } = parseRuleBody(req.body);
+
+      if (!values) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data: rule, error } = await supabase
+        .from('automation_rules')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating automation rule:', error);
+        return res.status(500).json({ error: "Failed to update automation rule" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      console.error('Error updating automation rule:', error);
+      res.status(500).json({ error: "Failed to update automation rule" });
+    }
+  });
+
+  app.delete("/api/automations/:id", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const existing = await loadRule(req, parseInt(req.params.id));
+
+      if (!existing) {
+        return res.status(404).json({ error: "Automation rule not found" });
+      }
+
+      // Keep the run log; it carries the rule's name
+      const { error: runsError } = await supabase
+        .from('automation_runs')
+        .update({ rule_id: null })
+        .eq('rule_id', existing.id);
+
+      const { error } = runsError
+        ? { error: runsError }
+        : await supabase.from('automation_rules').delete().eq('id', existing.id);
+
+      if (error) {
+        console.error('Error deleting automation rule:', error);
+        return res.status(500).json({ error: "Failed to delete automation rule" });
+      }
+
+      res.json({ message: "Automation rule deleted" });
+    } catch (error) {
+      console.error('Error deleting automation rule:', error);
+      res.status(500).json({ error: "Failed to delete automation rule" });
+    }
+  });
+
+  // Which rules ran on a ticket and what they did
+  app.get("/api/tickets/:id/automation-runs", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const { data: runs, error } = await supabase
+        .from('automation_runs')
+        .select('*')
+        .eq('ticket_id', req.ticket!.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching automation runs:', error);
+        return res.status(500).json({ error: "Failed to fetch automation runs" });
+      }
+
+      res.json(runs);
+    } catch (error) {
+      console.error('Error fetching automation runs:', error);
+      res.status(500).json({ error: "Failed to fetch automation runs" });
+    }
+  });
+}
@@ -0,0 +1,456 @@
+import type { Express, Request } from "express";
+import { sql } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { businessEmployees, users } from "@db/schema";
+import { MAX_MESSAGE_LENGTH, sanitizeMessageContent } from "./message-content";
+
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const DIRECT_MESSAGE_SELECT = `
+  *,
+  sender:users!sender_id(
+    id,
+    username,
+    role
+  )
+`;
+
+type EmployeeRole = typeof businessEmployees.role.enumValues[number];
+
+// The last message with one other user and how many of theirs are unread; see getConversations
+interface ConversationRow {
+  user_id: number;
+  username: string;
+  role: typeof users.role.enumValues[number];
+  id: number;
+  content: string;
+  sender_id: number;
+  sent_at: string;
+  unread_count: number;
+}
+
+interface StaffMember {
+  id: number;
+  username: string;
+  role: EmployeeRole;
+  businessProfileIds: number[];
+}
+
+// Businesses a user belongs to, as owner or active employee
+export async function getUserBusinessIds(userId: number) {
+  const [{ data: profiles }, { data: connections }] = await Promise.all([
+    supabase
+      .from('business_profiles')
+      .select('id')
+      .eq('user_id', userId)
+      .returns<{ id: number }[]>(),
+    supabase
+      .from('business_employees')
+      .select('business_profile_id')
+      .eq('employee_id', userId)
+      .eq('is_active', true)
+      .returns<{ business_profile_id: number }[]>()
+  ]);
+
+  return [
+    ...(profiles || []).map(profile => profile.id),
+    ...(connections || []).map(connection => connection.business_profile_id)
+  ];
+}
+
+// Businesses both users belong to. Direct messages need at least one.
+async function getSharedBusinessIds(userId: number, otherUserId: number) {
+  const [ids, otherIds] = await Promise.all([
+    getUserBusinessIds(userId),
+    getUserBusinessIds(otherUserId)
+  ]);
+
+  return ids.filter(id => otherIds.includes(id));
+}
+
+// Messages in either direction between two users
+const between = (userId: number, otherUserId: number) =>
+  `and(sender_id.eq.${userId},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${userId})`;
+
+// Each of the user's conversations, most recent first, optionally only those with the given users
+async function getConversations(userId: number, otherUserIds?: number[]) {
+  const otherUser = sql`case when dm.sender_id = ${userId} then dm.receiver_id else dm.sender_id end`;
+  const onlyWith = otherUserIds
+    ? sql`and ${otherUser} in (${sql.join(otherUserIds.map(id => sql`${id}`), sql`, `)})`
+    : sql``;
+
+  const rows = await db.execute(sql`
+    select * from (
+      select distinct on (m.user_id)
+             m.user_id, u.username, u.role, m.id, m.content, m.sender_id, m.sent_at,
+             (count(*) filter (where m.receiver_id = ${userId} and m.status <> 'read')
+               over (partition by m.user_id))::int as unread_count
+      from (
+        select ${otherUser} as user_id, dm.id, dm.content, dm.sender_id, dm.receiver_id, dm.status, dm.sent_at
+        from direct_messages dm
+        where (dm.sender_id = ${userId} or dm.receiver_id = ${userId}) ${onlyWith}
+      ) m
+      join users u on u.id = m.user_id
+      order by m.user_id, m.id desc
+    ) conversations
+    order by id desc
+  `);
+
+  return rows as unknown as ConversationRow[];
+}
+
+function parsePageSize(value: unknown) {
+  const size = parseInt(String(value));
+  return Number.isInteger(size) && size > 0 ? Math.min(size, MAX_PAGE_SIZE) : PAGE_SIZE;
+}
+
+export function setupDirectMessages(app: Express) {
+  // Everyone the current user has a conversation with, most recent first,
+  // with a preview of the last message and how many are unread
+  app.get("/api/direct-messages", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const conversations = await getConversations(req.user.id);
+
+      res.json(conversations.map(conversation => ({
+        user: { id: conversation.user_id, username: conversation.username, role: conversation.role },
+        lastMessage: {
+          id: conversation.id,
+          content: conversation.content,
+          sender_id: conversation.sender_id,
+          sent_at: conversation.sent_at
+        },
+        unreadCount: conversation.unread_count
+      })));
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+  });
+
+  // One page of a conversation, oldest first. Pass ?before=<message id> for earlier pages.
+  app.get("/api/direct-messages/:userId", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const otherUserId = parseInt(req.params.userId);
+
+      if (!otherUserId || (await getSharedBusinessIds(req.user.id, otherUserId)).length === 0) {
+        return res.status(403).json({ error: "You can only message people in your business" });
+      }
+
+      const pageSize = parsePageSize(req.query.limit);
+      const before = parseInt(String(req.query.before));
+
+      let query = supabase
+        .from('direct_messages')
+        .select(DIRECT_MESSAGE_SELECT)
+        .or(between(req.user.id, otherUserId))
+        .order('id', { ascending: false })
+        .limit(pageSize + 1);
+
+      if (before) {
+        query = query.lt('id', before);
+      }
+
+      const { data: messages, error } = await query;
+
+      if (error) {
+        console.error('Error fetching direct messages:', error);
+        return res.status(500).json({ error: "Failed to fetch messages" });
+      }
+
+      const page = (messages || []).slice(0, pageSize).reverse();
+
+      res.json({
+        messages: page,
+        hasMore: (messages || []).length > pageSize
+      });
+    } catch (error) {
+      console.error('Error fetching direct messages:', error);
+      res.status(500).json({ error: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/direct-messages/:userId", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const otherUserId = parseInt(req.params.userId);
+      const content = sanitizeMessageContent(req.body.content);
+
+      if (!content) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+
+      if (content.length > MAX_MESSAGE_LENGTH) {
+        return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+      }
+
+      const sharedBusinessIds = otherUserId && otherUserId !== req.user.id
+        ? await getSharedBusinessIds(req.user.id, otherUserId)
+        : [];
+
+      if (sharedBusinessIds.length === 0) {
+        return res.status(403).json({ error: "You can only message people in your business" });
+      }
+
+      // File the message under the business it is about, when the sender says
+      const requestedBusinessId = Number(req.body.businessProfileId);
+      const businessProfileId = sharedBusinessIds.includes(requestedBusinessId)
+        ? requestedBusinessId
+        : sharedBusinessIds[0];
+
+      const now = new Date().toISOString();
+
+      const { data: message, error } = await supabase
+        .from('direct_messages')
+        .insert({
+          content,
+          sender_id: req.user.id,
+          receiver_id: otherUserId,
+          business_profile_id: businessProfileId,
+          status: 'sent',
+          sent_at: now,
+          created_at: now
+        })
+        .select(DIRECT_MESSAGE_SELECT)
+        .single();
+
+      if (error) {
+        console.error('Error sending direct message:', error);
+        return res.status(500).json({ error: "Failed to send message" });
+      }
+
+      res.json(message);
+    } catch (error) {
+      console.error('Error sending direct message:', error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+
+  // Mark everything the other user sent in this conversation as read
+  app.post("/api/direct-messages/:userId/read", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const otherUserId = parseInt(req.params.userId);
+
+      if (!otherUserId) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      const now = new Date().toISOString();
+
+      const { data, error } = await supabase
+        .from('direct_messages')
+        .update({ status: 'read', read_at: now })
+        .eq('sender_id', otherUserId)
+        .eq('receiver_id', req.user.id)
+        .neq('status', 'read')
+        .select('id')
+        .returns<{ id: number }[]>();
+
+      if (error) {
+        console.error('Error marking direct messages read:', error);
+        return res.status(500).json({ error: "Failed to update message status" });
+      }
+
+      res.json({ messageIds: (data || []).map(message => message.id) });
+    } catch (error) {
+      console.error('Error marking direct messages read:', error);
+      res.status(500).json({ error: "Failed to update message status" });
+    }
+  });
+
+  // Employees the current user can message: everyone working for the same businesses
+  app.get("/api/users/staff", async (req: Request, res) => {
+    try {
+      if (!req.user || !['business', 'employee'].includes(req.user.role)) {
+        return res.status(403).json({ error: "Only business and employees can access this endpoint" });
+      }
+
+      const businessIds = await getUserBusinessIds(req.user.id);
+
+      if (businessIds.length === 0) {
+        return res.json([]);
+      }
+
+      const { data: connections, error } = await supabase
+        .from('business_employees')
+        .select(`
+          business_profile_id,
+          role,
+          employee:users!employee_id(
+            id,
+            username
+          )
+        `)
+        .in('business_profile_id', businessIds)
+        .eq('is_active', true)
+        .neq('employee_id', req.user.id)
+        .returns<{
+          business_profile_id: number;
+          role: EmployeeRole;
+          employee: { id: number; username: string } | null;
+        }[]>();
+
+      if (error) {
+        console.error('Error fetching staff:', error);
+        return res.status(500).json({ error: "Failed to fetch staff" });
+      }
+
+      // An employee of several shared businesses is listed once
+      const staff = new Map<number, StaffMember>();
+      (connections || []).forEach(connection => {
+        if (!connection.employee) return;
+        const existing = staff.get(connection.employee.id);
+        staff.set(connection.employee.id, {
+          id: connection.employee.id,
+          username: connection.employee.username,
+          role: existing?.role ?? connection.role,
+          businessProfileIds: [...(existing?.businessProfileIds || []), connection.business_profile_id]
+        });
+      });
+
+      res.json(Array.from(staff.values()));
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+      res.status(500).json({ error: "Failed to fetch staff" });
+    }
+  });
+
+  // Owners of the businesses the current employee works for
+  app.get("/api/users/business", async (req: Request, res) => {
+    try {
+      if (!req.user || req.user.role !== 'employee') {
+        return res.status(403).json({ error: "Only employees can access this endpoint" });
+      }
+
+      const { data: connections, error } = await supabase
+        .from('business_employees')
+        .select(`
+          business:business_profiles!business_profile_id(
+            id,
+            business_name,
+            owner:users!user_id(
+              id,
+              username
+            )
+          )
+        `)
+        .eq('employee_id', req.user.id)
+        .eq('is_active', true)
+        .returns<{
+          business: {
+            id: number;
+            business_name: string;
+            owner: { id: number; username: string } | null;
+          } | null;
+        }[]>();
+
+      if (error) {
+        console.error('Error fetching business users:', error);
+        return res.status(500).json({ error: "Failed to fetch business users" });
+      }
+
+      res.json((connections || []).flatMap(({ business }) => business?.owner
+        ? [{
+          id: business.owner.id,
+          username: business.owner.username,
+          role: 'business',
+          businessProfileId: business.id,
+          businessName: business.business_name
+        }]
+        : []));
+    } catch (error) {
+      console.error('Error fetching business users:', error);
+      res.status(500).json({ error: "Failed to fetch business users" });
+    }
+  });
+
+  // The business owner's inbox: every employee with their last message and unread count
+  app.get("/api/business/employees/messages", async (req: Request, res) => {
+    try {
+      if (!req.user || req.user.role !== 'business') {
+        return res.status(403).json({ error: "Only business accounts can access this endpoint" });
+      }
+
+      const { data: businessProfile } = await supabase
+        .from('business_profiles')
+        .select('id')
+        .eq('user_id', req.user.id)
+        .single();
+
+      if (!businessProfile) {
+        return res.status(404).json({ error: "Business profile not found" });
+      }
+
+      const { data: connections, error } = await supabase
+        .from('business_employees')
+        .select(`
+          is_active,
+          role,
+          employee:users!employee_id(
+            id,
+            username
+          )
+        `)
+        .eq('business_profile_id', businessProfile.id)
+        .returns<{
+          is_active: boolean;
+          role: EmployeeRole;
+          employee: { id: number; username: string } | null;
+        }[]>();
+
+      if (error) {
+        console.error('Error fetching employee conversations:', error);
+        return res.status(500).json({ error: "Failed to fetch employee conversations" });
+      }
+
+      const employees = (connections || []).flatMap(({ employee, ...connection }) =>
+        employee ? [{ ...connection, employee }] : []
+      );
+
+      const conversations = employees.length
+        ? await getConversations(req.user.id, employees.map(({ employee }) => employee.id))
+        : [];
+
+      const inbox = employees.map(({ employee, role, is_active }) => {
+        const conversation = conversations.find(row => row.user_id === employee.id);
+
+        return {
+          id: employee.id,
+          username: employee.username,
+          role,
+          status: is_active ? 'active' : 'inactive',
+          unreadCount: conversation?.unread_count ?? 0,
+          lastMessage: conversation
+            ? { content: conversation.content, sent_at: conversation.sent_at }
+            : undefined
+        };
+      });
+
+      // Most recent conversations first, then everyone else by name
+      inbox.sort((a, b) =>
+        (b.lastMessage?.sent_at || '').localeCompare(a.lastMessage?.sent_at || '') ||
+        a.username.localeCompare(b.username)
+      );
+
+      res.json(inbox);
+    } catch (error) {
+      console.error('Error fetching employee conversations:', error);
+      res.status(500).json({ error: "Failed to fetch employee conversations" });
+    }
+  });
+}
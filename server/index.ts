@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startJobWorkers } from "./jobs";
+import { startTimeRuleScheduler } from "./time-rules";
+import { startAttachmentCleanup } from "./attachments";
 import { setupVite, serveStatic, log } from "./vite";
 import * as dotenv from 'dotenv';
 dotenv.config();
@@ -63,5 +66,8 @@ app.use((req, res, next) => {
   const PORT = 5000;
   server.listen(5000, "0.0.0.0", () => {
     log(`serving on port 5000`);
+    startJobWorkers();
+    startTimeRuleScheduler();
+    startAttachmentCleanup();
   });
 })();
\ No newline at end of file
@@ -0,0 +1,301 @@
+import type { Express, Request } from "express";
+import { sql } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { jobs } from "@db/schema";
+import { requireBusinessPermission } from "./permissions";
+
+// Handlers get back the payload their job type was queued with
+export type JobHandler<Payload = unknown> = (payload: Payload) => Promise<void>;
+
+interface EnqueueOptions {
+  businessProfileId?: number | null;
+  // Run no earlier than this; defaults to as soon as a worker is free
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+interface ClaimedJob {
+  id: number;
+  type: string;
+  payload: unknown;
+  attempts: number;
+  max_attempts: number;
+}
+
+const handlers = new Map<string, JobHandler>();
+
+// Recurring job types, each kept queued by the workers; see ensureJobScheduled
+const recurringJobTypes = new Set<string>();
+
+// How often idle workers look for new jobs, and how many jobs run at once
+const POLL_INTERVAL = Number(process.env.JOB_POLL_SECONDS || 5) * 1000;
+const WORKER_COUNT = Number(process.env.JOB_WORKERS || 2);
+
+// A job still running after this long is assumed lost with the process that ran it
+const LOCK_TIMEOUT = 15 * 60 * 1000;
+
+// Retries wait 30s, 1m, 2m, ... up to an hour
+const BASE_BACKOFF = 30 * 1000;
+const MAX_BACKOFF = 60 * 60 * 1000;
+
+const JOB_STATUSES = jobs.status.enumValues;
+const JOB_LIST_LIMIT = 100;
+
+export function registerJobHandler<Payload>(type: string, handler: JobHandler<Payload>) {
+  handlers.set(type, handler as JobHandler);
+}
+
+// Save a job for the workers to pick up. Returns the job, or null if it couldn't be saved.
+export async function enqueueJob(type: string, payload: object = {}, options: EnqueueOptions = {}) {
+  const now = new Date().toISOString();
+
+  const { data: job, error } = await supabase
+    .from('jobs')
+    .insert({
+      type,
+      payload,
+      business_profile_id: options.businessProfileId ?? null,
+      max_attempts: options.maxAttempts ?? 5,
+      run_at: options.runAt?.toISOString() ?? now,
+      created_at: now,
+      updated_at: now
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error queueing ${type} job:`, error);
+    return null;
+  }
+
+  return job;
+}
+
+// Queue a run of a recurring job unless one is already waiting. From then on the
+// workers queue it again if a run is lost, e.g. dead-lettered after its worker stopped.
+export async function ensureJobScheduled(type: string, runAt: Date) {
+  recurringJobTypes.add(type);
+
+  const { count } = await supabase
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('type', type)
+    .eq('status', 'pending');
+
+  if (!count) {
+    await enqueueJob(type, {}, { runAt });
+  }
+}
+
+// Take the next due job. SKIP LOCKED lets several workers, in this process or
+// another, poll the same table without ever running one job twice.
+async function claimJob(): Promise<ClaimedJob | null> {
+  const now = new Date().toISOString();
+
+  const rows = await db.execute(sql`
+    update jobs
+    set status = 'running', attempts = attempts + 1, locked_at = ${now}, updated_at = ${now}
+    where id = (
+      select id from jobs
+      where status = 'pending' and run_at <= ${now}
+      order by run_at, id
+      for update skip locked
+      limit 1
+    )
+    returning id, type, payload, attempts, max_attempts
+  `);
+
+  return (rows[0] as unknown as ClaimedJob) ?? null;
+}
+
+async function finishJob(job: ClaimedJob, error?: unknown) {
+  const now = new Date();
+
+  if (!error) {
+    await supabase
+      .from('jobs')
+      .update({
+        status: 'completed',
+        locked_at: null,
+        last_error: null,
+        completed_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', job.id);
+    return;
+  }
+
+  const outOfAttempts = job.attempts >= job.max_attempts;
+  const backoff = Math.min(BASE_BACKOFF * 2 ** (job.attempts - 1), MAX_BACKOFF);
+
+  await supabase
+    .from('jobs')
+    .update({
+      status: outOfAttempts ? 'dead' : 'pending',
+      run_at: new Date(now.getTime() + backoff).toISOString(),
+      locked_at: null,
+      last_error: error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error),
+      updated_at: now.toISOString()
+    })
+    .eq('id', job.id);
+}
+
+// Run jobs until none are due. Returns once the queue is empty.
+async function drainQueue() {
+  let job: ClaimedJob | null;
+
+  while ((job = await claimJob())) {
+    const handler = handlers.get(job.type);
+
+    try {
+      if (!handler) throw new Error(`No handler for ${job.type} jobs`);
+      await handler(job.payload);
+      await finishJob(job);
+    } catch (error) {
+      console.error(`Error running ${job.type} job ${job.id}:`, error);
+      await finishJob(job, error);
+    }
+  }
+}
+
+// Put jobs whose worker died mid-run back in the queue, or dead-letter them if they're out of attempts
+async function recoverStaleJobs() {
+  const now = new Date();
+
+  await db.execute(sql`
+    update jobs
+    set status = case when attempts >= max_attempts then 'dead' else 'pending' end,
+        locked_at = null,
+        last_error = 'Worker stopped before the job finished',
+        updated_at = ${now.toISOString()}
+    where status = 'running' and locked_at < ${new Date(now.getTime() - LOCK_TIMEOUT).toISOString()}
+  `);
+}
+
+// Recurring jobs are system jobs that tenants can't see or retry, so a run that
+// didn't queue the next one is replaced here
+async function restoreRecurringJobs() {
+  for (const type of Array.from(recurringJobTypes)) {
+    const { count, error } = await supabase
+      .from('jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('type', type)
+      .in('status', ['pending', 'running']);
+
+    if (error) throw error;
+
+    if (!count) {
+      await enqueueJob(type);
+    }
+  }
+}
+
+// Poll for jobs in the background for as long as the server is up
+export function startJobWorkers() {
+  let activeWorkers = 0;
+
+  setInterval(async () => {
+    try {
+      await recoverStaleJobs();
+    } catch (error) {
+      console.error('Error recovering stale jobs:', error);
+    }
+
+    try {
+      await restoreRecurringJobs();
+    } catch (error) {
+      console.error('Error restoring recurring jobs:', error);
+    }
+
+    while (activeWorkers < WORKER_COUNT) {
+      activeWorkers++;
+      drainQueue()
+        .catch(error => console.error('Error polling job queue:', error))
+        .finally(() => activeWorkers--);
+    }
+  }, POLL_INTERVAL).unref();
+}
+
+export function setupJobs(app: Express) {
+  // Queue health for a business: counts per status and the most recent jobs
+  app.get("/api/jobs", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { businessProfileId } = req.access!;
+      const status = req.query.status as string | undefined;
+
+      if (status && !JOB_STATUSES.includes(status as typeof JOB_STATUSES[number])) {
+        return res.status(400).json({ error: "Invalid job status" });
+      }
+
+      let query = supabase
+        .from('jobs')
+        .select('*')
+        .eq('business_profile_id', businessProfileId)
+        .order('created_at', { ascending: false })
+        .limit(JOB_LIST_LIMIT);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const [{ data: jobList, error }, ...countResults] = await Promise.all([
+        query,
+        ...JOB_STATUSES.map(jobStatus =>
+          supabase
+            .from('jobs')
+            .select('id', { count: 'exact', head: true })
+            .eq('business_profile_id', businessProfileId)
+            .eq('status', jobStatus)
+        )
+      ]);
+
+      if (error) {
+        console.error('Error fetching jobs:', error);
+        return res.status(500).json({ error: "Failed to fetch jobs" });
+      }
+
+      res.json({
+        counts: Object.fromEntries(JOB_STATUSES.map((jobStatus, i) => [jobStatus, countResults[i].count ?? 0])),
+        jobs: jobList
+      });
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  // Give a dead-lettered job a fresh set of attempts
+  app.post("/api/jobs/:id/retry", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const now = new Date().toISOString();
+
+      const { data: job, error } = await supabase
+        .from('jobs')
+        .update({
+          status: 'pending',
+          attempts: 0,
+          run_at: now,
+          updated_at: now
+        })
+        .eq('id', parseInt(req.params.id))
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .eq('status', 'dead')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrying job:', error);
+        return res.status(500).json({ error: "Failed to retry job" });
+      }
+
+      if (!job) {
+        return res.status(404).json({ error: "No dead job with that ID" });
+      }
+
+      res.json(job);
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+}
@@ -0,0 +1,341 @@
+import type { Express, Request, Response } from "express";
+import { sql } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { macros } from "@db/schema";
+import { hasPermission, requireBusinessPermission, requireTicketPermission, type TicketRow } from "./permissions";
+import { MAX_MESSAGE_LENGTH } from "./message-content";
+import { computeSlaDueDates } from "./sla";
+import { loadTemplateContext, renderTemplate } from "./reply-templates";
+import { STATUS_TRANSITIONS, sendFeedbackSurvey } from "./ticket-actions";
+import { incrementUnread } from "./unread";
+import { queueChangeAutomations } from "./automations";
+
+const MAX_TITLE_LENGTH = 100;
+
+const TICKET_FIELDS = ['status', 'priority', 'category'] as const;
+
+type TicketField = typeof TICKET_FIELDS[number];
+
+interface MacroRow {
+  id: number;
+  business_profile_id: number;
+  created_by_id: number;
+  title: string;
+  reply_content: string | null;
+  status: typeof macros.status.enumValues[number] | null;
+  priority: typeof macros.priority.enumValues[number] | null;
+  category: typeof macros.category.enumValues[number] | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FieldChange {
+  field: TicketField;
+  from: string;
+  to: string;
+}
+
+// What running a macro on a ticket would do, worked out before anything is written
+export interface MacroPlan {
+  reply: string | null;
+  changes: FieldChange[];
+  note: string | null;
+  error?: string;
+}
+
+function parseMacroBody(body: unknown) {
+  const fields: Record<string, unknown> = typeof body === 'object' && body !== null ? { ...body } : {};
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+  const choice = <T extends string>(value: unknown, allowed: readonly T[]) =>
+    allowed.includes(value as T) ? value as T : null;
+
+  const title = text(fields.title);
+
+  if (!title) {
+    return { error: "Title is required" };
+  }
+
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { error: `Titles can be at most ${MAX_TITLE_LENGTH} characters` };
+  }
+
+  const values = {
+    title,
+    reply_content: text(fields.replyContent),
+    status: choice(fields.status, macros.status.enumValues),
+    priority: choice(fields.priority, macros.priority.enumValues),
+    category: choice(fields.category, macros.category.enumValues),
+    note: text(fields.note)
+  };
+
+  if ((values.reply_content?.length ?? 0) > MAX_MESSAGE_LENGTH) {
+    return { error: `Replies can be at most ${MAX_MESSAGE_LENGTH} characters` };
+  }
+
+  if (!values.reply_content && !values.status && !values.priority && !values.category && !values.note) {
+    return { error: "A macro needs at least one action" };
+  }
+
+  return { values };
+}
+
+// Fill in the reply and work out which ticket fields would actually change
+export async function planMacro(macro: MacroRow, ticket: TicketRow, agent: { username: string }): Promise<MacroPlan> {
+  const reply = macro.reply_content
+    ? renderTemplate(macro.reply_content, await loadTemplateContext(ticket, agent))
+    : null;
+
+  const changes: FieldChange[] = [];
+  for (const field of TICKET_FIELDS) {
+    const value = macro[field];
+    if (value && value !== ticket[field]) {
+      changes.push({ field, from: ticket[field], to: value });
+    }
+  }
+
+  const statusChange = changes.find(change => change.field === 'status');
+  const error = ticket.closed_at
+    ? "This ticket is closed"
+    : statusChange && !STATUS_TRANSITIONS[statusChange.from]?.includes(statusChange.to)
+      ? `Cannot change status from ${statusChange.from} to ${statusChange.to}`
+      : undefined;
+
+  return { reply, changes, note: macro.note ?? null, error };
+}
+
+async function loadMacro(req: Request, res: Response, macroId: number) {
+  const { data: macro } = await supabase
+    .from('macros')
+    .select('*')
+    .eq('id', macroId)
+    .eq('business_profile_id', req.access!.businessProfileId)
+    .maybeSingle<MacroRow>();
+
+  if (!macro) {
+    res.status(404).json({ error: "Macro not found" });
+    return null;
+  }
+
+  return macro;
+}
+
+// Write every part of a macro in one transaction so a ticket never ends up half-updated.
+// Returns null, having written nothing, if the ticket's status moved on since the plan was made.
+async function applyMacroPlan(plan: MacroPlan, ticket: TicketRow, agentId: number) {
+  const now = new Date().toISOString();
+  const next: Record<TicketField, string> = { status: ticket.status, priority: ticket.priority, category: ticket.category };
+  for (const change of plan.changes) {
+    next[change.field] = change.to;
+  }
+
+  // Re-prioritizing or re-categorizing can put the ticket under a different SLA policy
+  const sla = plan.changes.some(change => change.field !== 'status')
+    ? await computeSlaDueDates(ticket.business_profile_id, next.priority, next.category, new Date(ticket.created_at))
+    : {
+      sla_policy_id: ticket.sla_policy_id,
+      first_response_due_at: ticket.first_response_due_at,
+      resolution_due_at: ticket.resolution_due_at
+    };
+
+  return db.transaction(async (tx) => {
+    if (plan.changes.length > 0) {
+      const updated = await tx.execute(sql`
+        update tickets
+        set status = ${next.status},
+            priority = ${next.priority},
+            category = ${next.category},
+            sla_policy_id = ${sla.sla_policy_id},
+            first_response_due_at = ${sla.first_response_due_at},
+            resolution_due_at = ${sla.resolution_due_at},
+            updated_at = ${now}
+        where id = ${ticket.id} and status = ${ticket.status}
+        returning id
+      `);
+
+      if (updated.length === 0) return null;
+
+      for (const change of plan.changes) {
+        await tx.execute(sql`
+          insert into ticket_history (ticket_id, changed_by_id, field, from_value, to_value, created_at)
+          values (${ticket.id}, ${agentId}, ${change.field}, ${change.from}, ${change.to}, ${now})
+        `);
+      }
+    }
+
+    if (plan.note) {
+      await tx.execute(sql`
+        insert into ticket_notes (ticket_id, author_id, content, created_at)
+        values (${ticket.id}, ${agentId}, ${plan.note}, ${now})
+      `);
+    }
+
+    if (plan.reply) {
+      await tx.execute(sql`
+        insert into messages (content, ticket_id, sender_id, receiver_id, status, sent_at, created_at)
+        values (${plan.reply}, ${ticket.id}, ${agentId}, ${ticket.customer_id}, 'sent', ${now}, ${now})
+      `);
+    }
+
+    return { ...ticket, ...next, ...sla, updated_at: now };
+  });
+}
+
+export function setupMacros(app: Express) {
+  app.get("/api/macros", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const { data, error } = await supabase
+        .from('macros')
+        .select('*')
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .order('title');
+
+      if (error) {
+        console.error('Error fetching macros:', error);
+        return res.status(500).json({ error: "Failed to fetch macros" });
+      }
+
+      res.json({
+        canManage: hasPermission(req.access!.role, 'templates:manage'),
+        macros: data
+      });
+    } catch (error) {
+      console.error('Error fetching macros:', error);
+      res.status(500).json({ error: "Failed to fetch macros" });
+    }
+  });
+
+  app.post("/api/macros", requireBusinessPermission('templates:manage'), async (req: Request, res) => {
+    try {
+      const { values, error: validationError } = parseMacroBody(req.body);
+
+      if (!values) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const now = new Date().toISOString();
+
+      const { data: macro, error } = await supabase
+        .from('macros')
+        .insert({
+          ...values,
+          business_profile_id: req.access!.businessProfileId,
+          created_by_id: req.user!.id,
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating macro:', error);
+        return res.status(500).json({ error: "Failed to create macro" });
+      }
+
+      res.json(macro);
+    } catch (error) {
+      console.error('Error creating macro:', error);
+      res.status(500).json({ error: "Failed to create macro" });
+    }
+  });
+
+  app.put("/api/macros/:id", requireBusinessPermission('templates:manage'), async (req: Request, res) => {
+    try {
+      const existing = await loadMacro(req, res, parseInt(req.params.id));
+      if (!existing) return;
+
+      const { values, error: validationError } = parseMacroBody(req.body);
+
+      if (!values) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data: macro, error } = await supabase
+        .from('macros')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating macro:', error);
+        return res.status(500).json({ error: "Failed to update macro" });
+      }
+
+      res.json(macro);
+    } catch (error) {
+      console.error('Error updating macro:', error);
+      res.status(500).json({ error: "Failed to update macro" });
+    }
+  });
+
+  app.delete("/api/macros/:id", requireBusinessPermission('templates:manage'), async (req: Request, res) => {
+    try {
+      const existing = await loadMacro(req, res, parseInt(req.params.id));
+      if (!existing) return;
+
+      const { error } = await supabase
+        .from('macros')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) {
+        console.error('Error deleting macro:', error);
+        return res.status(500).json({ error: "Failed to delete macro" });
+      }
+
+      res.json({ message: "Macro deleted" });
+    } catch (error) {
+      console.error('Error deleting macro:', error);
+      res.status(500).json({ error: "Failed to delete macro" });
+    }
+  });
+
+  // Show what a macro would do to this ticket without changing anything
+  app.post("/api/tickets/:id/macros/:macroId/preview", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const macro = await loadMacro(req, res, parseInt(req.params.macroId));
+      if (!macro) return;
+
+      res.json(await planMacro(macro, req.ticket!, req.user!));
+    } catch (error) {
+      console.error('Error previewing macro:', error);
+      res.status(500).json({ error: "Failed to preview macro" });
+    }
+  });
+
+  app.post("/api/tickets/:id/macros/:macroId/apply", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const macro = await loadMacro(req, res, parseInt(req.params.macroId));
+      if (!macro) return;
+
+      const { business, ...ticket } = req.ticket!;
+      const plan = await planMacro(macro, ticket, req.user!);
+
+      if (plan.error) {
+        return res.status(400).json({ error: plan.error });
+      }
+
+      const updatedTicket = await applyMacroPlan(plan, ticket, req.user!.id);
+
+      if (!updatedTicket) {
+        return res.status(409).json({ error: "The ticket changed while the macro was running. Please try again." });
+      }
+
+      if (plan.reply) {
+        await incrementUnread(ticket.id, ticket.customer_id);
+      }
+
+      if (plan.changes.some(change => change.field === 'status' && change.to === 'resolved')) {
+        await sendFeedbackSurvey(ticket, req.user!.id);
+      }
+
+      await queueChangeAutomations(ticket, plan.changes);
+
+      res.json({ ticket: updatedTicket, plan });
+    } catch (error) {
+      console.error('Error applying macro:', error);
+      res.status(500).json({ error: "Failed to apply macro" });
+    }
+  });
+}
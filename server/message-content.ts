@@ -0,0 +1,12 @@
+export const MAX_MESSAGE_LENGTH = 5000;
+
+// Normalise chat text from the client: unify line endings and drop control
+// characters other than newlines and tabs. Rendering escapes everything else.
+export function sanitizeMessageContent(content: unknown) {
+  if (typeof content !== 'string') return '';
+
+  return content
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .trim();
+}
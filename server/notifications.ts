@@ -0,0 +1,43 @@
+import { supabase } from "@db/index";
+import { enqueueJob, registerJobHandler } from "./jobs";
+
+const WELCOME_JOB = 'notifications.welcome';
+
+interface WelcomeJob {
+  businessProfileId: number;
+  employeeId: number;
+}
+
+// Greet an employee who just joined a business, from the business owner, once a worker gets to it
+export async function queueWelcomeMessage(businessProfileId: number, employeeId: number) {
+  const payload: WelcomeJob = { businessProfileId, employeeId };
+  await enqueueJob(WELCOME_JOB, payload, { businessProfileId });
+}
+
+export function registerNotificationJobs() {
+  registerJobHandler<WelcomeJob>(WELCOME_JOB, async ({ businessProfileId, employeeId }) => {
+    const { data: business, error } = await supabase
+      .from('business_profiles')
+      .select('user_id, business_name')
+      .eq('id', businessProfileId)
+      .single();
+
+    if (error) throw error;
+
+    const now = new Date().toISOString();
+
+    const { error: messageError } = await supabase
+      .from('direct_messages')
+      .insert({
+        content: `Welcome! You are now connected with ${business.business_name}. You can start chatting here.`,
+        sender_id: business.user_id,
+        receiver_id: employeeId,
+        business_profile_id: businessProfileId,
+        status: 'sent',
+        sent_at: now,
+        created_at: now
+      });
+
+    if (messageError) throw messageError;
+  });
+}
@@ -0,0 +1,203 @@
+import type { Request, Response, NextFunction } from "express";
+import { supabase } from "@db/index";
+import { businessEmployees, tickets } from "@db/schema";
+
+// The business owner plus the roles an employee can hold inside a business
+export type BusinessRole = 'owner' | typeof businessEmployees.role.enumValues[number];
+
+export type Permission =
+  | 'tickets:work'      // view, update, claim and annotate tickets
+  | 'tickets:escalate'  // escalate and de-escalate tickets
+  | 'tickets:reassign'  // hand any ticket to another employee
+  | 'templates:manage'  // shared quick reply templates and macros
+  | 'analytics:view'
+  | 'settings:manage'   // SLA policies, routing, automations and background jobs
+  | 'employees:manage'; // employee roles and skills
+
+const AGENT_PERMISSIONS: Permission[] = ['tickets:work'];
+const SUPERVISOR_PERMISSIONS: Permission[] = [...AGENT_PERMISSIONS, 'tickets:escalate', 'tickets:reassign', 'templates:manage', 'analytics:view'];
+const ADMIN_PERMISSIONS: Permission[] = [...SUPERVISOR_PERMISSIONS, 'settings:manage', 'employees:manage'];
+
+const ROLE_PERMISSIONS: Record<BusinessRole, Permission[]> = {
+  agent: AGENT_PERMISSIONS,
+  supervisor: SUPERVISOR_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  owner: ADMIN_PERMISSIONS
+};
+
+export interface BusinessAccess {
+  businessProfileId: number;
+  role: BusinessRole;
+}
+
+// A tickets row as returned by Supabase, with the owning business that loadTicketAccess embeds
+export interface TicketRow {
+  id: number;
+  title: string;
+  description: string;
+  status: typeof tickets.status.enumValues[number];
+  category: typeof tickets.category.enumValues[number];
+  priority: typeof tickets.priority.enumValues[number];
+  customer_id: number;
+  business_profile_id: number;
+  claimed_by_id: number | null;
+  claimed_at: string | null;
+  escalation_level: typeof tickets.escalationLevel.enumValues[number];
+  escalated_at: string | null;
+  escalated_by_id: number | null;
+  escalation_reason: string | null;
+  previous_assignee_id: number | null;
+  sla_policy_id: number | null;
+  first_response_due_at: string | null;
+  resolution_due_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  business?: { id: number; user_id: number };
+}
+
+declare module 'express' {
+  interface Request {
+    access?: BusinessAccess;
+    ticket?: TicketRow;
+  }
+}
+
+export function hasPermission(role: BusinessRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// The current user's role in a business, or null when they have none
+export async function getBusinessRole(req: Request, businessProfileId: number): Promise<BusinessRole | null> {
+  if (req.user?.role === 'business') {
+    const { data: businessProfile } = await supabase
+      .from('business_profiles')
+      .select('id')
+      .eq('id', businessProfileId)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    return businessProfile ? 'owner' : null;
+  }
+
+  if (req.user?.role === 'employee') {
+    const { data: connection } = await supabase
+      .from('business_employees')
+      .select('role')
+      .eq('business_profile_id', businessProfileId)
+      .eq('employee_id', req.user.id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    return connection?.role ?? null;
+  }
+
+  return null;
+}
+
+// Load a ticket and check the current user holds the permission in its business.
+// Sends the error response and returns null otherwise.
+export async function loadTicketAccess(req: Request, res: Response, ticketId: number, permission: Permission) {
+  if (!req.user || !['business', 'employee'].includes(req.user.role)) {
+    res.status(403).json({ error: "Only business and employees can manage tickets" });
+    return null;
+  }
+
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select(`
+      *,
+      business:business_profiles!business_profile_id(
+        id,
+        user_id
+      )
+    `)
+    .eq('id', ticketId)
+    .single<TicketRow>();
+
+  if (!ticket) {
+    res.status(404).json({ error: "Ticket not found" });
+    return null;
+  }
+
+  const role = await getBusinessRole(req, ticket.business_profile_id);
+
+  if (!role) {
+    res.status(403).json({ error: "No access to this ticket" });
+    return null;
+  }
+
+  if (!hasPermission(role, permission)) {
+    res.status(403).json({ error: "You do not have permission to do this" });
+    return null;
+  }
+
+  req.access = { businessProfileId: ticket.business_profile_id, role };
+  req.ticket = ticket;
+  return ticket;
+}
+
+// Route guard for /api/tickets/:id routes. Sets req.ticket and req.access.
+export function requireTicketPermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ticket = await loadTicketAccess(req, res, parseInt(req.params.id), permission);
+      if (ticket) next();
+    } catch (error) {
+      console.error('Error checking ticket access:', error);
+      res.status(500).json({ error: "Failed to check ticket access" });
+    }
+  };
+}
+
+// Route guard for business-wide routes. Business owners act on their own business;
+// employees name the business with a businessProfileId query or body field.
+export function requireBusinessPermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user || !['business', 'employee'].includes(req.user.role)) {
+        return res.status(403).json({ error: "Only business and employees can access this endpoint" });
+      }
+
+      let businessProfileId: number;
+      let role: BusinessRole | null;
+
+      if (req.user.role === 'business') {
+        const { data: businessProfile } = await supabase
+          .from('business_profiles')
+          .select('id')
+          .eq('user_id', req.user.id)
+          .single();
+
+        if (!businessProfile) {
+          return res.status(404).json({ error: "Business profile not found" });
+        }
+
+        businessProfileId = businessProfile.id;
+        role = 'owner';
+      } else {
+        businessProfileId = parseInt(String(req.query.businessProfileId ?? req.body?.businessProfileId));
+
+        if (!businessProfileId) {
+          return res.status(400).json({ error: "Business profile ID is required" });
+        }
+
+        role = await getBusinessRole(req, businessProfileId);
+
+        if (!role) {
+          return res.status(403).json({ error: "No access to this business" });
+        }
+      }
+
+      if (!hasPermission(role, permission)) {
+        return res.status(403).json({ error: "You do not have permission to do this" });
+      }
+
+      req.access = { businessProfileId, role };
+      next();
+    } catch (error) {
+      console.error('Error checking business access:', error);
+      res.status(500).json({ error: "Failed to check business access" });
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import { supabase } from "@db/index";
+
+// Which incoming messages a receipt covers
+export interface ReceiptScope {
+  ticketId?: number;       // messages in this ticket's chat
+  senderId?: number;       // sent by this user
+  receiverId?: number;     // addressed to this user
+  messageIds?: number[];
+}
+
+// The filter builder an update returns, before its select
+type MessageFilter = ReturnType<ReturnType<typeof supabase.from>['update']>;
+
+function scoped<Query extends MessageFilter>(query: Query, scope: ReceiptScope): Query {
+  if (scope.ticketId !== undefined) query = query.eq('ticket_id', scope.ticketId);
+  if (scope.senderId !== undefined) query = query.eq('sender_id', scope.senderId);
+  if (scope.receiverId !== undefined) query = query.eq('receiver_id', scope.receiverId);
+  if (scope.messageIds) query = query.in('id', scope.messageIds);
+  return query.is('deleted_at', null);
+}
+
+// Advance sent messages to delivered. Returns the ids that changed.
+export async function markDelivered(scope: ReceiptScope): Promise<number[]> {
+  const { data, error } = await scoped(
+    supabase
+      .from('messages')
+      .update({ status: 'delivered', delivered_at: new Date().toISOString() }),
+    scope
+  )
+    .eq('status', 'sent')
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).map((message: { id: number }) => message.id);
+}
+
+// Mark messages read, filling in the delivery time for any that skipped
+// straight from sent to read. Returns the ids that changed.
+export async function markRead(scope: ReceiptScope): Promise<number[]> {
+  const now = new Date().toISOString();
+
+  const [neverDelivered, delivered] = await Promise.all([
+    scoped(
+      supabase
+        .from('messages')
+        .update({ status: 'read', delivered_at: now, read_at: now }),
+      scope
+    )
+      .eq('status', 'sent')
+      .select('id'),
+    scoped(
+      supabase
+        .from('messages')
+        .update({ status: 'read', read_at: now }),
+      scope
+    )
+      .eq('status', 'delivered')
+      .select('id')
+  ]);
+
+  if (neverDelivered.error) throw neverDelivered.error;
+  if (delivered.error) throw delivered.error;
+
+  return [...(neverDelivered.data || []), ...(delivered.data || [])]
+    .map((message: { id: number }) => message.id);
+}
@@ -0,0 +1,266 @@
+import type { Express, Request, Response } from "express";
+import { supabase } from "@db/index";
+import { replyTemplates } from "@db/schema";
+import { hasPermission, requireBusinessPermission, requireTicketPermission, type TicketRow } from "./permissions";
+import { MAX_MESSAGE_LENGTH } from "./message-content";
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_CATEGORY_LENGTH = 50;
+
+type TemplateScope = typeof replyTemplates.scope.enumValues[number];
+
+interface ReplyTemplateRow {
+  id: number;
+  business_profile_id: number;
+  created_by_id: number;
+  title: string;
+  content: string;
+  category: string | null;
+  scope: TemplateScope;
+  created_at: string;
+  updated_at: string;
+}
+
+// Values available to {{group.field}} placeholders
+export interface TemplateContext {
+  customer?: { username: string };
+  ticket?: { id: number; title: string; status: string; priority: string; category: string };
+  agent?: { username: string };
+  business?: { businessName: string };
+}
+
+// Fill {{customer.username}}-style placeholders. Unknown placeholders are left as
+// written so the agent can see something still needs filling in.
+export function renderTemplate(content: string, context: TemplateContext) {
+  return content.replace(/\{\{\s*(\w+)\.(\w+)\s*\}\}/g, (placeholder, group: string, field: string) => {
+    const value = (context as Record<string, Record<string, unknown> | undefined>)[group]?.[field];
+    return value === undefined || value === null ? placeholder : String(value);
+  });
+}
+
+// Everything a template can refer to for a ticket, as seen by the given agent
+export async function loadTemplateContext(ticket: TicketRow, agent?: { username: string }): Promise<TemplateContext> {
+  const [{ data: customer }, { data: business }] = await Promise.all([
+    supabase
+      .from('users')
+      .select('username')
+      .eq('id', ticket.customer_id)
+      .maybeSingle(),
+    supabase
+      .from('business_profiles')
+      .select('business_name')
+      .eq('id', ticket.business_profile_id)
+      .maybeSingle()
+  ]);
+
+  return {
+    customer: customer ? { username: customer.username } : undefined,
+    ticket: {
+      id: ticket.id,
+      title: ticket.title,
+      status: ticket.status,
+      priority: ticket.priority,
+      category: ticket.category
+    },
+    agent: agent ? { username: agent.username } : undefined,
+    business: business ? { businessName: business.business_name } : undefined
+  };
+}
+
+function parseTemplateBody(body: unknown) {
+  const fields: Record<string, unknown> = typeof body === 'object' && body !== null ? { ...body } : {};
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+  const title = text(fields.title);
+  const content = text(fields.content);
+  const category = text(fields.category);
+
+  if (!title || !content) {
+    return { error: "Title and content are required" };
+  }
+
+  if (title.length > MAX_TITLE_LENGTH || category.length > MAX_CATEGORY_LENGTH || content.length > MAX_MESSAGE_LENGTH) {
+    return { error: "Template is too long" };
+  }
+
+  if (fields.scope !== undefined && !replyTemplates.scope.enumValues.includes(fields.scope as TemplateScope)) {
+    return { error: "Invalid scope" };
+  }
+
+  return {
+    values: {
+      title,
+      content,
+      category: category || null,
+      scope: (fields.scope ?? 'personal') as TemplateScope
+    }
+  };
+}
+
+// Load a template from the current business and check the user may change it.
+// Sends the error response and returns null otherwise.
+async function loadEditableTemplate(req: Request, res: Response) {
+  const { data: template } = await supabase
+    .from('reply_templates')
+    .select('*')
+    .eq('id', parseInt(req.params.id))
+    .eq('business_profile_id', req.access!.businessProfileId)
+    .maybeSingle<ReplyTemplateRow>();
+
+  if (!template || (template.scope === 'personal' && template.created_by_id !== req.user!.id)) {
+    res.status(404).json({ error: "Template not found" });
+    return null;
+  }
+
+  if (template.scope === 'shared' && !hasPermission(req.access!.role, 'templates:manage')) {
+    res.status(403).json({ error: "Only supervisors and admins can change shared templates" });
+    return null;
+  }
+
+  return template;
+}
+
+export function setupReplyTemplates(app: Express) {
+  // Shared templates for the business plus the current user's own
+  app.get("/api/reply-templates", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const { data: templates, error } = await supabase
+        .from('reply_templates')
+        .select('*')
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .or(`scope.eq.shared,created_by_id.eq.${req.user!.id}`)
+        .order('category', { nullsFirst: false })
+        .order('title')
+        .returns<ReplyTemplateRow[]>();
+
+      if (error) {
+        console.error('Error fetching reply templates:', error);
+        return res.status(500).json({ error: "Failed to fetch templates" });
+      }
+
+      const canManageShared = hasPermission(req.access!.role, 'templates:manage');
+
+      res.json({
+        canManageShared,
+        templates: (templates || []).map(template => ({
+          ...template,
+          canEdit: template.scope === 'personal' || canManageShared
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching reply templates:', error);
+      res.status(500).json({ error: "Failed to fetch templates" });
+    }
+  });
+
+  app.post("/api/reply-templates", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const { values, error: validationError } = parseTemplateBody(req.body);
+
+      if (!values) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      if (values.scope === 'shared' && !hasPermission(req.access!.role, 'templates:manage')) {
+        return res.status(403).json({ error: "Only supervisors and admins can create shared templates" });
+      }
+
+      const now = new Date().toISOString();
+
+      const { data: template, error } = await supabase
+        .from('reply_templates')
+        .insert({
+          ...values,
+          business_profile_id: req.access!.businessProfileId,
+          created_by_id: req.user!.id,
+          created_at: now,
+          updated_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating reply template:', error);
+        return res.status(500).json({ error: "Failed to create template" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error('Error creating reply template:', error);
+      res.status(500).json({ error: "Failed to create template" });
+    }
+  });
+
+  app.put("/api/reply-templates/:id", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const existing = await loadEditableTemplate(req, res);
+      if (!existing) return;
+
+      const { values, error: validationError } = parseTemplateBody({ scope: existing.scope, ...req.body });
+
+      if (!values) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      // Sharing someone's template with the whole business needs the same rights as creating one
+      if (values.scope === 'shared' && !hasPermission(req.access!.role, 'templates:manage')) {
+        return res.status(403).json({ error: "Only supervisors and admins can share templates" });
+      }
+
+      const { data: template, error } = await supabase
+        .from('reply_templates')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating reply template:', error);
+        return res.status(500).json({ error: "Failed to update template" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error('Error updating reply template:', error);
+      res.status(500).json({ error: "Failed to update template" });
+    }
+  });
+
+  app.delete("/api/reply-templates/:id", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const existing = await loadEditableTemplate(req, res);
+      if (!existing) return;
+
+      const { error } = await supabase
+        .from('reply_templates')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) {
+        console.error('Error deleting reply template:', error);
+        return res.status(500).json({ error: "Failed to delete template" });
+      }
+
+      res.json({ message: "Template deleted" });
+    } catch (error) {
+      console.error('Error deleting reply template:', error);
+      res.status(500).json({ error: "Failed to delete template" });
+    }
+  });
+
+  // Fill a template's placeholders for a ticket before it goes into the chat input
+  app.post("/api/tickets/:id/render-template", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      if (typeof req.body.content !== 'string') {
+        return res.status(400).json({ error: "Template content is required" });
+      }
+
+      const context = await loadTemplateContext(req.ticket!, req.user);
+
+      res.json({ content: renderTemplate(req.body.content, context) });
+    } catch (error) {
+      console.error('Error rendering template:', error);
+      res.status(500).json({ error: "Failed to fill in template" });
+    }
+  });
+}
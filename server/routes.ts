@@ -1,7 +1,37 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { supabase } from "@db/index";
+import { businessEmployees, tickets } from "@db/schema";
+import { computeSlaDueDates, getSlaActivity, getTicketSla, parseSlaPolicy } from "./sla";
+import { autoAssignTicket } from "./assignment";
+import { linkAttachments, setupAttachments } from "./attachments";
+import { markDelivered, markRead } from "./receipts";
+import { clearUnread, getUnreadCounts, incrementUnread } from "./unread";
+import { MAX_MESSAGE_LENGTH, sanitizeMessageContent } from "./message-content";
+import { STATUS_TRANSITIONS, isActiveEmployee, sendFeedbackSurvey } from "./ticket-actions";
+import { setupDirectMessages } from "./direct-messages";
+import { setupTeamChannels } from "./team-channels";
+import { setupReplyTemplates } from "./reply-templates";
+import { setupMacros } from "./macros";
+import { queueAutomations, queueChangeAutomations, setupAutomations } from "./automations";
+import { setupTimeRules } from "./time-rules";
+import { setupJobs } from "./jobs";
+import { setupSearch } from "./search";
+import { queueWelcomeMessage, registerNotificationJobs } from "./notifications";
+import {
+  hasPermission,
+  loadTicketAccess,
+  requireBusinessPermission,
+  requireTicketPermission
+} from "./permissions";
+import {
+  getEmployeeMetrics,
+  getFeedbackMetrics,
+  getTicketMetrics,
+  parseAnalyticsFilters,
+  type AnalyticsFilters
+} from "./analytics";
 
 // Extend Express Request type to include user
 declare module 'express' {
@@ -14,8 +44,105 @@ declare module 'express' {
   }
 }
 
+// Escalation levels in ascending order
+const ESCALATION_LEVELS = tickets.escalationLevel.enumValues;
+
+// Columns returned for chat messages, with the sender and any attached files
+const MESSAGE_SELECT = `
+  *,
+  sender:users!sender_id(
+    id,
+    username,
+    role
+  ),
+  attachments(
+    id,
+    file_name,
+    mime_type,
+    size
+  )
+`;
+
+// Load a ticket for its chat: the customer who opened it, or staff who can work it.
+// Sends the error response and returns null otherwise.
+async function loadTicketForChat(req: Request, res: Response, ticketId: number) {
+  if (req.user?.role !== 'customer') {
+    return loadTicketAccess(req, res, ticketId, 'tickets:work');
+  }
+
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select(`
+      *,
+      business:business_profiles!business_profile_id(
+        id,
+        user_id
+      )
+    `)
+    .eq('id', ticketId)
+    .single();
+
+  if (!ticket) {
+    res.status(404).json({ error: "Ticket not found" });
+    return null;
+  }
+
+  if (ticket.customer_id !== req.user.id) {
+    res.status(403).json({ error: "No access to this ticket" });
+    return null;
+  }
+
+  return ticket;
+}
+
+// How long after sending a message its sender may still edit or delete it
+const MESSAGE_EDIT_WINDOW_MINUTES = Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES || 15);
+
+// Load a message the current user sent and may still change.
+// Sends the error response and returns null otherwise.
+async function loadEditableMessage(req: Request, res: Response) {
+  const { data: message } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('id', parseInt(req.params.id))
+    .single();
+
+  if (!message) {
+    res.status(404).json({ error: "Message not found" });
+    return null;
+  }
+
+  if (message.sender_id !== req.user?.id) {
+    res.status(403).json({ error: "You can only change your own messages" });
+    return null;
+  }
+
+  if (message.deleted_at) {
+    res.status(400).json({ error: "Message has been deleted" });
+    return null;
+  }
+
+  const editableUntil = new Date(message.sent_at).getTime() + MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+  if (Date.now() > editableUntil) {
+    res.status(400).json({ error: `Messages can only be changed within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending` });
+    return null;
+  }
+
+  return message;
+}
+
 export function registerRoutes(app: Express): Server {
   setupAuth(app);
+  setupAttachments(app);
+  setupDirectMessages(app);
+  setupTeamChannels(app);
+  setupReplyTemplates(app);
+  setupMacros(app);
+  setupAutomations(app);
+  setupTimeRules(app);
+  setupJobs(app);
+  setupSearch(app);
+  registerNotificationJobs();
 
   // Get business profile
   app.get("/api/business-profile", async (req: Request, res) => {
@@ -96,6 +223,185 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // List SLA policies for the business
+  app.get("/api/sla-policies", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { data: policies, error } = await supabase
+        .from('sla_policies')
+        .select('*')
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching SLA policies:', error);
+        return res.status(500).json({ error: "Failed to fetch SLA policies" });
+      }
+
+      res.json(policies);
+    } catch (error) {
+      console.error('Error fetching SLA policies:', error);
+      res.status(500).json({ error: "Failed to fetch SLA policies" });
+    }
+  });
+
+  // Create an SLA policy. Applies to tickets created or re-prioritized afterwards.
+  app.post("/api/sla-policies", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const parsed = parseSlaPolicy(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const { data: policy, error } = await supabase
+        .from('sla_policies')
+        .insert({
+          ...parsed.values,
+          business_profile_id: req.access!.businessProfileId,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating SLA policy:', error);
+        return res.status(500).json({ error: "Failed to create SLA policy" });
+      }
+
+      res.json(policy);
+    } catch (error) {
+      console.error('Error creating SLA policy:', error);
+      res.status(500).json({ error: "Failed to create SLA policy" });
+    }
+  });
+
+  app.put("/api/sla-policies/:id", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const parsed = parseSlaPolicy(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const { data: policy, error } = await supabase
+        .from('sla_policies')
+        .update({
+          ...parsed.values,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', parseInt(req.params.id))
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .select()
+        .single();
+
+      if (error || !policy) {
+        console.error('Error updating SLA policy:', error);
+        return res.status(404).json({ error: "SLA policy not found" });
+      }
+
+      res.json(policy);
+    } catch (error) {
+      console.error('Error updating SLA policy:', error);
+      res.status(500).json({ error: "Failed to update SLA policy" });
+    }
+  });
+
+  app.delete("/api/sla-policies/:id", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const policyId = parseInt(req.params.id);
+      const { businessProfileId } = req.access!;
+
+      // Detach tickets so they stop reporting against the removed policy
+      const { error: detachError } = await supabase
+        .from('tickets')
+        .update({
+          sla_policy_id: null,
+          first_response_due_at: null,
+          resolution_due_at: null
+        })
+        .eq('sla_policy_id', policyId)
+        .eq('business_profile_id', businessProfileId);
+
+      if (detachError) {
+        console.error('Error detaching SLA policy:', detachError);
+        return res.status(500).json({ error: "Failed to delete SLA policy" });
+      }
+
+      const { error } = await supabase
+        .from('sla_policies')
+        .delete()
+        .eq('id', policyId)
+        .eq('business_profile_id', businessProfileId);
+
+      if (error) {
+        console.error('Error deleting SLA policy:', error);
+        return res.status(500).json({ error: "Failed to delete SLA policy" });
+      }
+
+      res.json({ message: "SLA policy deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting SLA policy:', error);
+      res.status(500).json({ error: "Failed to delete SLA policy" });
+    }
+  });
+
+  // Get ticket routing settings for the business
+  app.get("/api/routing-settings", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { businessProfileId } = req.access!;
+
+      const { data: settings } = await supabase
+        .from('routing_settings')
+        .select('*')
+        .eq('business_profile_id', businessProfileId)
+        .single();
+
+      // Businesses without saved settings route manually
+      res.json(settings ?? {
+        business_profile_id: businessProfileId,
+        strategy: 'manual',
+        max_open_tickets: null
+      });
+    } catch (error) {
+      console.error('Error fetching routing settings:', error);
+      res.status(500).json({ error: "Failed to fetch routing settings" });
+    }
+  });
+
+  app.put("/api/routing-settings", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { strategy, maxOpenTickets = null } = req.body;
+
+      if (!["manual", "round_robin", "least_loaded"].includes(strategy)) {
+        return res.status(400).json({ error: "Invalid routing strategy" });
+      }
+
+      if (maxOpenTickets !== null && (!Number.isInteger(maxOpenTickets) || maxOpenTickets < 1)) {
+        return res.status(400).json({ error: "Capacity must be a positive whole number" });
+      }
+
+      const { data: settings, error } = await supabase
+        .from('routing_settings')
+        .upsert({
+          business_profile_id: req.access!.businessProfileId,
+          strategy,
+          max_open_tickets: maxOpenTickets,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'business_profile_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving routing settings:', error);
+        return res.status(500).json({ error: "Failed to save routing settings" });
+      }
+
+      res.json(settings);
+    } catch (error) {
+      console.error('Error saving routing settings:', error);
+      res.status(500).json({ error: "Failed to save routing settings" });
+    }
+  });
+
   // Employee invitation endpoint
   app.post("/api/businesses/employees/invite", async (req: Request, res) => {
     try {
@@ -236,29 +542,16 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get all employees for a specific business
-  app.get("/api/businesses/employees", async (req: Request, res) => {
+  app.get("/api/businesses/employees", requireBusinessPermission('employees:manage'), async (req: Request, res) => {
     try {
-      if (!req.user || req.user.role !== "business") {
-        return res.status(403).json({ error: "Only business accounts can view their employees" });
-      }
-
-      // Get the current business profile
-      const { data: businessProfile } = await supabase
-        .from('business_profiles')
-        .select()
-        .eq('user_id', req.user.id)
-        .single();
-
-      if (!businessProfile) {
-        return res.status(404).json({ error: "Business profile not found" });
-      }
-
       // Get only employees connected to this specific business with their connection status
       const { data: employees, error } = await supabase
         .from('business_employees')
         .select(`
           employee_id,
           is_active,
+          role,
+          skills,
           created_at,
           employee:users!employee_id(
             id,
@@ -266,7 +559,7 @@ export function registerRoutes(app: Express): Server {
             role
           )
         `)
-        .eq('business_profile_id', businessProfile.id);
+        .eq('business_profile_id', req.access!.businessProfileId);
 
       if (error) {
         console.error('Error fetching employees:', error);
@@ -278,6 +571,8 @@ export function registerRoutes(app: Express): Server {
         employee: emp.employee,
         connection: {
           isActive: emp.is_active,
+          role: emp.role,
+          skills: emp.skills || [],
           createdAt: emp.created_at
         }
       })) || [];
@@ -289,6 +584,70 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Set the ticket categories an employee specializes in
+  app.put("/api/businesses/employees/:employeeId/skills", requireBusinessPermission('employees:manage'), async (req: Request, res) => {
+    try {
+      const { skills } = req.body;
+
+      if (!Array.isArray(skills) ||
+          skills.some(skill => !businessEmployees.skills.enumValues.includes(skill))) {
+        return res.status(400).json({ error: "Skills must be a list of ticket categories" });
+      }
+
+      const { data: connection, error } = await supabase
+        .from('business_employees')
+        .update({ skills: Array.from(new Set(skills)) })
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .eq('employee_id', parseInt(req.params.employeeId))
+        .select()
+        .single();
+
+      if (error || !connection) {
+        console.error('Error updating employee skills:', error);
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      res.json(connection);
+    } catch (error) {
+      console.error('Error updating employee skills:', error);
+      res.status(500).json({ error: "Failed to update employee skills" });
+    }
+  });
+
+  // Set an employee's role within the business
+  app.put("/api/businesses/employees/:employeeId/role", requireBusinessPermission('employees:manage'), async (req: Request, res) => {
+    try {
+      const { role } = req.body;
+      const employeeId = parseInt(req.params.employeeId);
+
+      if (!businessEmployees.role.enumValues.includes(role)) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+
+      if (employeeId === req.user!.id) {
+        return res.status(400).json({ error: "You cannot change your own role" });
+      }
+
+      const { data: connection, error } = await supabase
+        .from('business_employees')
+        .update({ role })
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .eq('employee_id', employeeId)
+        .select()
+        .single();
+
+      if (error || !connection) {
+        console.error('Error updating employee role:', error);
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      res.json(connection);
+    } catch (error) {
+      console.error('Error updating employee role:', error);
+      res.status(500).json({ error: "Failed to update employee role" });
+    }
+  });
+
   // Get all available employees that can be invited
   app.get("/api/employees", async (req: Request, res) => {
     try {
@@ -344,7 +703,12 @@ export function registerRoutes(app: Express): Server {
         return res.status(500).json({ error: "Failed to fetch claimed tickets" });
       }
 
-      res.json(tickets);
+      const unreadCounts = await getUnreadCounts(req.user.id, tickets.map(ticket => ticket.id));
+
+      res.json(tickets.map(ticket => ({
+        ...ticket,
+        unreadCount: unreadCounts.get(ticket.id) || 0
+      })));
     } catch (error) {
       console.error('Error fetching claimed tickets:', error);
       res.status(500).json({ error: "Failed to fetch claimed tickets" });
@@ -384,6 +748,7 @@ export function registerRoutes(app: Express): Server {
             business_name
           ),
           is_active,
+          role,
           created_at
         `)
         .eq('employee_id', req.user.id)
@@ -399,6 +764,7 @@ export function registerRoutes(app: Express): Server {
         business: conn.business_profile,
         connection: {
           isActive: conn.is_active,
+          role: conn.role,
           createdAt: conn.created_at
         }
       })) || [];
@@ -431,16 +797,24 @@ export function registerRoutes(app: Express): Server {
             id,
             business_name,
             user_id
+          ),
+          sla_policy:sla_policies!sla_policy_id(
+            id,
+            next_response_minutes,
+            business_hours
           )
         `)
         .order('created_at', { ascending: false });
 
+      // The employee's skills per business, used to surface matching tickets first
+      let employeeSkills: Map<number, string[]> | null = null;
+
       // Apply filters based on user role
       if (req.user.role === 'employee') {
         // For employees, first get their active business connections
         const { data: activeConnections } = await supabase
           .from('business_employees')
-          .select('business_profile_id')
+          .select('business_profile_id, skills')
           .eq('employee_id', req.user.id)
           .eq('is_active', true);
 
@@ -449,6 +823,7 @@ export function registerRoutes(app: Express): Server {
         }
 
         const businessIds = activeConnections.map(conn => conn.business_profile_id);
+        employeeSkills = new Map(activeConnections.map(conn => [conn.business_profile_id, conn.skills || []]));
 
         if (businessProfileId) {
           // If specific business is selected, check if employee has access
@@ -485,14 +860,27 @@ export function registerRoutes(app: Express): Server {
         return res.status(500).json({ error: "Failed to fetch tickets" });
       }
 
+      // Load message activity once for all tickets to work out SLA state
+      const slaActivity = await getSlaActivity(tickets?.map(ticket => ticket.id) ?? []);
+
+      const unreadCounts = tickets?.length
+        ? await getUnreadCounts(req.user.id, tickets.map(ticket => ticket.id))
+        : new Map<number, number>();
+
+      const now = new Date();
+
       // Transform the data to include only necessary information
-      const transformedTickets = tickets?.map(ticket => ({
+      const transformedTickets = tickets?.map(({ sla_policy, ...ticket }) => ({
         ...ticket,
         customer: ticket.customer,
         business: ticket.business,
+        ...(employeeSkills && {
+          matchesSkills: !!employeeSkills.get(ticket.business_profile_id)?.includes(ticket.category)
+        }),
+        sla: getTicketSla(ticket, sla_policy, slaActivity.get(ticket.id), now),
         hasBusinessResponse: false, // You can implement this based on your needs
         hasFeedback: false, // You can implement this based on your needs
-        unreadCount: 0, // You can implement this based on your needs
+        unreadCount: unreadCounts.get(ticket.id) || 0,
       })) || [];
 
       res.json(transformedTickets);
@@ -550,7 +938,7 @@ export function registerRoutes(app: Express): Server {
       // Get the invitation details first
       const { data: invitation, error: invitationError } = await supabase
         .from('employee_invitations')
-        .select('*, business_profile:business_profiles(user_id, business_name)')
+        .select('*')
         .eq('id', invitationId)
         .eq('employee_id', req.user.id)
         .single();
@@ -577,27 +965,8 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
-      // If invitation was accepted, create a welcome message
       if (accept) {
-        const welcomeMessage = {
-          content: `Welcome! You are now connected with ${invitation.business_profile.business_name}. You can start chatting here.`,
-          sender_id: invitation.business_profile.user_id,
-          receiver_id: req.user.id,
-          status: 'sent',
-          chat_initiator: true,
-          initiated_at: new Date().toISOString(),
-          sent_at: new Date().toISOString(),
-          created_at: new Date().toISOString()
-        };
-
-        const { error: messageError } = await supabase
-          .from('messages')
-          .insert(welcomeMessage);
-
-        if (messageError) {
-          console.error('Error creating welcome message:', messageError);
-          // Don't return error as the invitation was already accepted
-        }
+        await queueWelcomeMessage(invitation.business_profile_id, req.user.id);
       }
 
       res.json({ message: `Invitation ${accept ? 'accepted' : 'declined'} successfully` });
@@ -614,7 +983,7 @@ export function registerRoutes(app: Express): Server {
         return res.status(401).json({ error: "Unauthorized" });
       }
 
-      const { title, description, businessProfileId, category } = req.body;
+      const { title, description, businessProfileId, category, attachmentIds } = req.body;
 
       if (!businessProfileId) {
         return res.status(400).json({ error: "Business profile ID is required" });
@@ -624,6 +993,14 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ error: "Title and description are required" });
       }
 
+      const now = new Date();
+      const slaDueDates = await computeSlaDueDates(
+        businessProfileId,
+        'medium',
+        category || 'general_inquiry',
+        now
+      );
+
       // Create the ticket
       const { data: ticket, error } = await supabase
         .from('tickets')
@@ -635,8 +1012,9 @@ export function registerRoutes(app: Express): Server {
           category: category || 'general_inquiry',
           status: 'open',
           priority: 'medium',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          ...slaDueDates,
+          created_at: now.toISOString(),
+          updated_at: now.toISOString()
         })
         .select()
         .single();
@@ -646,7 +1024,14 @@ export function registerRoutes(app: Express): Server {
         return res.status(500).json({ error: "Failed to create ticket" });
       }
 
-      res.json(ticket);
+      // Files uploaded from the ticket form before submitting
+      await linkAttachments(attachmentIds, req.user.id, { ticketId: ticket.id });
+
+      const assignedTicket = await autoAssignTicket(ticket);
+
+      await queueAutomations(ticket, ['ticket_created']);
+
+      res.json(assignedTicket ?? ticket);
     } catch (error) {
       console.error('Error creating ticket:', error);
       res.status(500).json({ error: "Failed to create ticket" });
@@ -654,50 +1039,10 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Add notes endpoints after the tickets endpoints
-  app.get("/api/tickets/:id/notes", async (req: Request, res) => {
+  app.get("/api/tickets/:id/notes", requireTicketPermission('tickets:work'), async (req: Request, res) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({ error: "Unauthorized" });
-      }
-
       const ticketId = parseInt(req.params.id);
 
-      // Get the ticket first to check permissions
-      const { data: ticket } = await supabase
-        .from('tickets')
-        .select(`
-          *,
-          business:business_profiles!business_profile_id(
-            id,
-            user_id
-          )
-        `)
-        .eq('id', ticketId)
-        .single();
-
-      if (!ticket) {
-        return res.status(404).json({ error: "Ticket not found" });
-      }
-
-      // Check if user has access to the ticket
-      if (req.user.role === 'business' && ticket.business.user_id !== req.user.id) {
-        return res.status(403).json({ error: "No access to this ticket" });
-      }
-
-      if (req.user.role === 'employee') {
-        const { data: hasAccess } = await supabase
-          .from('business_employees')
-          .select()
-          .eq('employee_id', req.user.id)
-          .eq('business_profile_id', ticket.business_profile_id)
-          .eq('is_active', true)
-          .single();
-
-        if (!hasAccess) {
-          return res.status(403).json({ error: "No access to this ticket" });
-        }
-      }
-
       // Get notes with author information
       const { data: notes, error } = await supabase
         .from('ticket_notes')
@@ -724,12 +1069,8 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/tickets/:id/notes", async (req: Request, res) => {
+  app.post("/api/tickets/:id/notes", requireTicketPermission('tickets:work'), async (req: Request, res) => {
     try {
-      if (!req.user || !['business', 'employee'].includes(req.user.role)) {
-        return res.status(403).json({ error: "Only business and employees can add notes" });
-      }
-
       const ticketId = parseInt(req.params.id);
       const { content } = req.body;
 
@@ -737,48 +1078,12 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ error: "Note content is required" });
       }
 
-      // Get the ticket first to check permissions
-      const { data: ticket } = await supabase
-        .from('tickets')
-        .select(`
-          *,
-          business:business_profiles!business_profile_id(
-            id,
-            user_id
-          )
-        `)
-        .eq('id', ticketId)
-        .single();
-
-      if (!ticket) {
-        return res.status(404).json({ error: "Ticket not found" });
-      }
-
-      // Check if user has access to the ticket
-      if (req.user.role === 'business' && ticket.business.user_id !== req.user.id) {
-        return res.status(403).json({ error: "No access to this ticket" });
-      }
-
-      if (req.user.role === 'employee') {
-        const { data: hasAccess } = await supabase
-          .from('business_employees')
-          .select()
-          .eq('employee_id', req.user.id)
-          .eq('business_profile_id', ticket.business_profile_id)
-          .eq('is_active', true)
-          .single();
-
-        if (!hasAccess) {
-          return res.status(403).json({ error: "No access to this ticket" });
-        }
-      }
-
       // Add the note
       const { data: note, error } = await supabase
         .from('ticket_notes')
         .insert({
           ticket_id: ticketId,
-          author_id: req.user.id,
+          author_id: req.user!.id,
           content: content.trim(),
           created_at: new Date().toISOString()
         })
@@ -805,43 +1110,14 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Claim ticket endpoint
-  app.post("/api/tickets/:id/claim", async (req: Request, res) => {
+  app.post("/api/tickets/:id/claim", requireTicketPermission('tickets:work'), async (req: Request, res) => {
     try {
-      if (!req.user || req.user.role !== 'employee') {
+      if (req.user!.role !== 'employee') {
         return res.status(403).json({ error: "Only employees can claim tickets" });
       }
 
       const ticketId = parseInt(req.params.id);
-
-      // Get the ticket first to check permissions
-      const { data: ticket } = await supabase
-        .from('tickets')
-        .select(`
-          *,
-          business:business_profiles!business_profile_id(
-            id,
-            user_id
-          )
-        `)
-        .eq('id', ticketId)
-        .single();
-
-      if (!ticket) {
-        return res.status(404).json({ error: "Ticket not found" });
-      }
-
-      // Check if employee has access to this business's tickets
-      const { data: hasAccess } = await supabase
-        .from('business_employees')
-        .select()
-        .eq('employee_id', req.user.id)
-        .eq('business_profile_id', ticket.business_profile_id)
-        .eq('is_active', true)
-        .single();
-
-      if (!hasAccess) {
-        return res.status(403).json({ error: "No access to this business's tickets" });
-      }
+      const ticket = req.ticket!;
 
       // Check if ticket is already claimed
       if (ticket.claimed_by_id) {
@@ -852,7 +1128,7 @@ export function registerRoutes(app: Express): Server {
       const { data: updatedTicket, error } = await supabase
         .from('tickets')
         .update({
-          claimed_by_id: req.user.id,
+          claimed_by_id: req.user!.id,
           claimed_at: new Date().toISOString(),
         })
         .eq('id', ticketId)
@@ -872,59 +1148,957 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Unclaim ticket endpoint
-  app.post("/api/tickets/:id/unclaim", async (req: Request, res) => {
+  app.post("/api/tickets/:id/unclaim", requireTicketPermission('tickets:work'), async (req: Request, res) => {
     try {
-      if (!req.user || req.user.role !== 'employee') {
-        return res.status(403).json({ error: "Only employees can unclaim tickets" });
-      }
+      const ticketId = parseInt(req.params.id);
+
+      // Check if the ticket is claimed by the requesting employee
+      if (req.ticket!.claimed_by_id !== req.user!.id) {
+        return res.status(403).json({ error: "You can only unclaim tickets that you have claimed" });
+      }
+
+      // Update the ticket to remove claim information
+      const { data: updatedTicket, error } = await supabase
+        .from('tickets')
+        .update({
+          claimed_by_id: null,
+          claimed_at: null,
+        })
+        .eq('id', ticketId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error unclaiming ticket:', error);
+        return res.status(500).json({ error: "Failed to unclaim ticket" });
+      }
 
+      res.json(updatedTicket);
+    } catch (error) {
+      console.error('Error unclaiming ticket:', error);
+      res.status(500).json({ error: "Failed to unclaim ticket" });
+    }
+  });
+
+  // Update ticket status, priority and category
+  app.patch("/api/tickets/:id", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
       const ticketId = parseInt(req.params.id);
+      const { status, priority, category } = req.body;
+
+      if (status === undefined && priority === undefined && category === undefined) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      if (status !== undefined && !tickets.status.enumValues.includes(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+
+      if (priority !== undefined && !tickets.priority.enumValues.includes(priority)) {
+        return res.status(400).json({ error: "Invalid priority" });
+      }
+
+      if (category !== undefined && !tickets.category.enumValues.includes(category)) {
+        return res.status(400).json({ error: "Invalid category" });
+      }
+
+      const ticket = req.ticket!;
+
+      if (ticket.closed_at) {
+        return res.status(400).json({ error: "Closed tickets can't be changed" });
+      }
+
+      if (status !== undefined && status !== ticket.status &&
+          !STATUS_TRANSITIONS[ticket.status]?.includes(status)) {
+        return res.status(400).json({
+          error: `Cannot change status from ${ticket.status} to ${status}`
+        });
+      }
+
+      // Only record fields that actually change
+      const changes = (['status', 'priority', 'category'] as const)
+        .filter(field => req.body[field] !== undefined && req.body[field] !== ticket[field])
+        .map(field => ({ field, from: ticket[field], to: req.body[field] }));
+
+      if (changes.length === 0) {
+        const { business, ...unchanged } = ticket;
+        return res.json(unchanged);
+      }
+
+      const updates: Record<string, string | number | null> = {
+        updated_at: new Date().toISOString()
+      };
+      for (const change of changes) {
+        updates[change.field] = change.to;
+      }
+
+      // Re-prioritizing or re-categorizing can put the ticket under a different SLA policy
+      if (changes.some(change => change.field !== 'status')) {
+        Object.assign(updates, await computeSlaDueDates(
+          ticket.business_profile_id,
+          req.body.priority ?? ticket.priority,
+          req.body.category ?? ticket.category,
+          new Date(ticket.created_at)
+        ));
+      }
+
+      const { data: updatedTicket, error } = await supabase
+        .from('tickets')
+        .update(updates)
+        .eq('id', ticketId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating ticket:', error);
+        return res.status(500).json({ error: "Failed to update ticket" });
+      }
+
+      const { error: historyError } = await supabase
+        .from('ticket_history')
+        .insert(changes.map(change => ({
+          ticket_id: ticketId,
+          changed_by_id: req.user!.id,
+          field: change.field,
+          from_value: change.from,
+          to_value: change.to,
+          created_at: updates.updated_at
+        })));
+
+      if (historyError) {
+        console.error('Error recording ticket history:', historyError);
+        // Don't return error as the ticket was already updated
+      }
+
+      if (updates.status === 'resolved') {
+        await sendFeedbackSurvey(ticket, req.user!.id);
+      }
+
+      await queueChangeAutomations(ticket, changes);
+
+      res.json(updatedTicket);
+    } catch (error) {
+      console.error('Error updating ticket:', error);
+      res.status(500).json({ error: "Failed to update ticket" });
+    }
+  });
+
+  // Get feedback for a ticket
+  app.get("/api/tickets/:id/feedback", async (req: Request, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+
+      if (req.user?.role === 'customer') {
+        const { data: ticket } = await supabase
+          .from('tickets')
+          .select('customer_id')
+          .eq('id', ticketId)
+          .single();
+
+        if (!ticket) {
+          return res.status(404).json({ error: "Ticket not found" });
+        }
+
+        if (ticket.customer_id !== req.user.id) {
+          return res.status(403).json({ error: "No access to this ticket" });
+        }
+      } else if (!(await loadTicketAccess(req, res, ticketId, 'tickets:work'))) {
+        return;
+      }
+
+      const { data: feedback, error } = await supabase
+        .from('ticket_feedback')
+        .select('*')
+        .eq('ticket_id', ticketId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching feedback:', error);
+        return res.status(500).json({ error: "Failed to fetch feedback" });
+      }
+
+      res.json(feedback);
+    } catch (error) {
+      console.error('Error fetching feedback:', error);
+      res.status(500).json({ error: "Failed to fetch feedback" });
+    }
+  });
+
+  // Submit feedback for a resolved ticket
+  app.post("/api/tickets/:id/feedback", async (req: Request, res) => {
+    try {
+      if (!req.user || req.user.role !== 'customer') {
+        return res.status(403).json({ error: "Only customers can leave feedback" });
+      }
+
+      const ticketId = parseInt(req.params.id);
+      const { rating, comment } = req.body;
+
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return res.status(400).json({ error: "Rating must be a whole number from 1 to 5" });
+      }
 
-      // Get the ticket first to check permissions
       const { data: ticket } = await supabase
         .from('tickets')
+        .select('id, status, customer_id')
+        .eq('id', ticketId)
+        .single();
+
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+
+      if (ticket.customer_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only leave feedback on your own tickets" });
+      }
+
+      if (ticket.status !== 'resolved') {
+        return res.status(400).json({ error: "Feedback can only be left on resolved tickets" });
+      }
+
+      const { data: existingFeedback } = await supabase
+        .from('ticket_feedback')
+        .select('id')
+        .eq('ticket_id', ticketId)
+        .maybeSingle();
+
+      if (existingFeedback) {
+        return res.status(400).json({ error: "Feedback has already been submitted for this ticket" });
+      }
+
+      const { data: feedback, error } = await supabase
+        .from('ticket_feedback')
+        .insert({
+          ticket_id: ticketId,
+          rating,
+          comment: comment?.trim() || null,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error submitting feedback:', error);
+        return res.status(500).json({ error: "Failed to submit feedback" });
+      }
+
+      res.json(feedback);
+    } catch (error) {
+      console.error('Error submitting feedback:', error);
+      res.status(500).json({ error: "Failed to submit feedback" });
+    }
+  });
+
+  // List active employees a ticket can be assigned to
+  app.get("/api/tickets/:id/assignees", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const { data: employees, error } = await supabase
+        .from('business_employees')
+        .select(`
+          employee:users!employee_id(
+            id,
+            username
+          )
+        `)
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .eq('is_active', true);
+
+      if (error) {
+        console.error('Error fetching assignees:', error);
+        return res.status(500).json({ error: "Failed to fetch assignees" });
+      }
+
+      res.json(employees?.map(emp => emp.employee) || []);
+    } catch (error) {
+      console.error('Error fetching assignees:', error);
+      res.status(500).json({ error: "Failed to fetch assignees" });
+    }
+  });
+
+  // Automatic assignment log for a ticket
+  app.get("/api/tickets/:id/assignments", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+
+      const { data: assignments, error } = await supabase
+        .from('ticket_assignments')
         .select(`
           *,
-          business:business_profiles!business_profile_id(
+          assignee:users!assignee_id(
             id,
-            user_id
+            username
           )
         `)
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching assignments:', error);
+        return res.status(500).json({ error: "Failed to fetch assignments" });
+      }
+
+      res.json(assignments);
+    } catch (error) {
+      console.error('Error fetching assignments:', error);
+      res.status(500).json({ error: "Failed to fetch assignments" });
+    }
+  });
+
+  // Escalation history for a ticket
+  app.get("/api/tickets/:id/escalations", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+
+      const { data: escalations, error } = await supabase
+        .from('ticket_escalations')
+        .select(`
+          *,
+          escalated_by:users!escalated_by_id(
+            id,
+            username
+          ),
+          from_assignee:users!from_assignee_id(
+            id,
+            username
+          ),
+          to_assignee:users!to_assignee_id(
+            id,
+            username
+          )
+        `)
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching escalations:', error);
+        return res.status(500).json({ error: "Failed to fetch escalations" });
+      }
+
+      res.json(escalations);
+    } catch (error) {
+      console.error('Error fetching escalations:', error);
+      res.status(500).json({ error: "Failed to fetch escalations" });
+    }
+  });
+
+  // Move a ticket one escalation level up or down, optionally reassigning it
+  const changeEscalation = (direction: 1 | -1) => async (req: Request, res: Response) => {
+    const action = direction === 1 ? 'escalate' : 'de-escalate';
+
+    try {
+      const ticketId = parseInt(req.params.id);
+      const { reason } = req.body;
+      // Optional; ids from forms arrive as strings
+      const assigneeId = req.body.assigneeId == null || req.body.assigneeId === '' ? null : Number(req.body.assigneeId);
+
+      if (!reason?.trim()) {
+        return res.status(400).json({ error: "A reason is required" });
+      }
+
+      if (assigneeId !== null && !Number.isInteger(assigneeId)) {
+        return res.status(400).json({ error: "Invalid assignee" });
+      }
+
+      const ticket = req.ticket!;
+
+      if (ticket.status === 'resolved') {
+        return res.status(400).json({ error: `Cannot ${action} a resolved ticket` });
+      }
+
+      const fromLevel = ticket.escalation_level;
+      const toLevel = ESCALATION_LEVELS[ESCALATION_LEVELS.indexOf(fromLevel) + direction];
+
+      if (!toLevel) {
+        return res.status(400).json({
+          error: direction === 1
+            ? "Ticket is already at the highest escalation level"
+            : "Ticket is not escalated"
+        });
+      }
+
+      if (assigneeId && !(await isActiveEmployee(ticket.business_profile_id, assigneeId))) {
+        return res.status(400).json({ error: "Assignee must be an active employee of this business" });
+      }
+
+      const now = new Date().toISOString();
+      const reassigned = assigneeId !== null && assigneeId !== ticket.claimed_by_id;
+
+      const { data: updatedTicket, error } = await supabase
+        .from('tickets')
+        .update({
+          escalation_level: toLevel,
+          escalated_at: toLevel === 'none' ? null : now,
+          escalated_by_id: toLevel === 'none' ? null : req.user!.id,
+          escalation_reason: toLevel === 'none' ? null : reason.trim(),
+          ...(reassigned && {
+            claimed_by_id: assigneeId,
+            claimed_at: now,
+            previous_assignee_id: ticket.claimed_by_id
+          }),
+          updated_at: now
+        })
         .eq('id', ticketId)
+        .select()
         .single();
 
-      if (!ticket) {
-        return res.status(404).json({ error: "Ticket not found" });
+      if (error) {
+        console.error(`Error trying to ${action} ticket:`, error);
+        return res.status(500).json({ error: `Failed to ${action} ticket` });
       }
 
-      // Check if the ticket is claimed by the requesting employee
-      if (ticket.claimed_by_id !== req.user.id) {
-        return res.status(403).json({ error: "You can only unclaim tickets that you have claimed" });
+      const { error: escalationError } = await supabase
+        .from('ticket_escalations')
+        .insert({
+          ticket_id: ticketId,
+          from_level: fromLevel,
+          to_level: toLevel,
+          from_assignee_id: ticket.claimed_by_id,
+          to_assignee_id: reassigned ? assigneeId : ticket.claimed_by_id,
+          escalated_by_id: req.user!.id,
+          reason: reason.trim(),
+          created_at: now
+        });
+
+      if (escalationError) {
+        console.error('Error recording escalation:', escalationError);
+        // Don't return error as the ticket was already updated
       }
 
-      // Update the ticket to remove claim information
+      res.json(updatedTicket);
+    } catch (error) {
+      console.error(`Error trying to ${action} ticket:`, error);
+      res.status(500).json({ error: `Failed to ${action} ticket` });
+    }
+  };
+
+  app.post("/api/tickets/:id/escalate", requireTicketPermission('tickets:escalate'), changeEscalation(1));
+  app.post("/api/tickets/:id/de-escalate", requireTicketPermission('tickets:escalate'), changeEscalation(-1));
+
+  // Transfer history for a ticket, with who can hand it off next
+  app.get("/api/tickets/:id/transfers", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+      const ticket = req.ticket!;
+
+      const { data: transfers, error } = await supabase
+        .from('ticket_transfers')
+        .select(`
+          *,
+          transferred_by:users!transferred_by_id(
+            id,
+            username
+          ),
+          from_assignee:users!from_assignee_id(
+            id,
+            username
+          ),
+          to_assignee:users!to_assignee_id(
+            id,
+            username
+          )
+        `)
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching transfers:', error);
+        return res.status(500).json({ error: "Failed to fetch transfers" });
+      }
+
+      const { data: currentAssignee } = ticket.claimed_by_id
+        ? await supabase
+          .from('users')
+          .select('id, username')
+          .eq('id', ticket.claimed_by_id)
+          .single()
+        : { data: null };
+
+      res.json({
+        currentAssignee,
+        canTransfer: ticket.status !== 'resolved' &&
+          (hasPermission(req.access!.role, 'tickets:reassign') || ticket.claimed_by_id === req.user!.id),
+        transfers
+      });
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+      res.status(500).json({ error: "Failed to fetch transfers" });
+    }
+  });
+
+  // Hand a ticket directly to another active employee
+  app.post("/api/tickets/:id/transfer", requireTicketPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const ticketId = parseInt(req.params.id);
+      const { note } = req.body;
+
+      if (req.body.assigneeId == null || req.body.assigneeId === '') {
+        return res.status(400).json({ error: "An employee to transfer to is required" });
+      }
+
+      // Ids from forms arrive as strings
+      const assigneeId = Number(req.body.assigneeId);
+
+      if (!Number.isInteger(assigneeId)) {
+        return res.status(400).json({ error: "Invalid assignee" });
+      }
+
+      if (!note?.trim()) {
+        return res.status(400).json({ error: "A handoff note is required" });
+      }
+
+      const ticket = req.ticket!;
+
+      // Agents can only hand off tickets they currently hold
+      if (!hasPermission(req.access!.role, 'tickets:reassign') && ticket.claimed_by_id !== req.user!.id) {
+        return res.status(403).json({ error: "Only the current assignee or a supervisor can transfer this ticket" });
+      }
+
+      if (ticket.status === 'resolved') {
+        return res.status(400).json({ error: "Cannot transfer a resolved ticket" });
+      }
+
+      if (assigneeId === ticket.claimed_by_id) {
+        return res.status(400).json({ error: "Ticket is already assigned to this employee" });
+      }
+
+      if (!(await isActiveEmployee(ticket.business_profile_id, assigneeId))) {
+        return res.status(400).json({ error: "Assignee must be an active employee of this business" });
+      }
+
+      const now = new Date().toISOString();
+
       const { data: updatedTicket, error } = await supabase
         .from('tickets')
         .update({
-          claimed_by_id: null,
-          claimed_at: null,
+          claimed_by_id: assigneeId,
+          claimed_at: now,
+          previous_assignee_id: ticket.claimed_by_id,
+          updated_at: now
         })
         .eq('id', ticketId)
         .select()
         .single();
 
       if (error) {
-        console.error('Error unclaiming ticket:', error);
-        return res.status(500).json({ error: "Failed to unclaim ticket" });
+        console.error('Error transferring ticket:', error);
+        return res.status(500).json({ error: "Failed to transfer ticket" });
+      }
+
+      const { error: transferError } = await supabase
+        .from('ticket_transfers')
+        .insert({
+          ticket_id: ticketId,
+          from_assignee_id: ticket.claimed_by_id,
+          to_assignee_id: assigneeId,
+          transferred_by_id: req.user!.id,
+          note: note.trim(),
+          created_at: now
+        });
+
+      if (transferError) {
+        console.error('Error recording transfer:', transferError);
+        // Don't return error as the ticket was already updated
+      }
+
+      // Let the recipient know through a direct message
+      const { error: notifyError } = await supabase
+        .from('direct_messages')
+        .insert({
+          content: `${req.user!.username} transferred ticket #${ticketId} "${ticket.title}" to you.\n\nHandoff note: ${note.trim()}`,
+          sender_id: req.user!.id,
+          receiver_id: assigneeId,
+          business_profile_id: ticket.business_profile_id,
+          status: 'sent',
+          sent_at: now,
+          created_at: now
+        });
+
+      if (notifyError) {
+        console.error('Error notifying transfer recipient:', notifyError);
       }
 
       res.json(updatedTicket);
     } catch (error) {
-      console.error('Error unclaiming ticket:', error);
-      res.status(500).json({ error: "Failed to unclaim ticket" });
+      console.error('Error transferring ticket:', error);
+      res.status(500).json({ error: "Failed to transfer ticket" });
+    }
+  });
+
+  // A single ticket, for its customer or staff of its business
+  app.get("/api/tickets/:id", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const ticket = await loadTicketForChat(req, res, parseInt(req.params.id));
+      if (!ticket) return;
+
+      const { business, ...ticketData } = ticket;
+      res.json(ticketData);
+    } catch (error) {
+      console.error('Error fetching ticket:', error);
+      res.status(500).json({ error: "Failed to fetch ticket" });
+    }
+  });
+
+  // Chat history of a ticket
+  app.get("/api/tickets/:id/messages", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const ticket = await loadTicketForChat(req, res, parseInt(req.params.id));
+      if (!ticket) return;
+
+      const { data: messages, error } = await supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('ticket_id', ticket.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching messages:', error);
+        return res.status(500).json({ error: "Failed to fetch messages" });
+      }
+
+      res.json(messages);
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      res.status(500).json({ error: "Failed to fetch messages" });
+    }
+  });
+
+  // Post to a ticket's chat. Customers reach the assigned employee, or the business
+  // owner while the ticket is unclaimed; staff replies go to the customer.
+  app.post("/api/tickets/:id/messages", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const content = sanitizeMessageContent(req.body.content);
+      const { attachmentIds } = req.body;
+      const hasAttachments = Array.isArray(attachmentIds) && attachmentIds.length > 0;
+
+      if (!content && !hasAttachments) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+
+      if (content.length > MAX_MESSAGE_LENGTH) {
+        return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+      }
+
+      const ticket = await loadTicketForChat(req, res, parseInt(req.params.id));
+      if (!ticket) return;
+
+      if (ticket.closed_at) {
+        return res.status(400).json({ error: "This ticket is closed" });
+      }
+
+      const receiverId = req.user.role === 'customer'
+        ? ticket.claimed_by_id ?? ticket.business.user_id
+        : ticket.customer_id;
+
+      const { count } = await supabase
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('ticket_id', ticket.id);
+
+      const now = new Date().toISOString();
+      const isFirstMessage = !count;
+
+      const { data: message, error } = await supabase
+        .from('messages')
+        .insert({
+          content,
+          ticket_id: ticket.id,
+          sender_id: req.user.id,
+          receiver_id: receiverId,
+          status: 'sent',
+          chat_initiator: isFirstMessage,
+          initiated_at: isFirstMessage ? now : null,
+          sent_at: now,
+          created_at: now
+        })
+        .select(MESSAGE_SELECT)
+        .single();
+
+      if (error) {
+        console.error('Error sending message:', error);
+        return res.status(500).json({ error: "Failed to send message" });
+      }
+
+      if (hasAttachments) {
+        message.attachments = await linkAttachments(attachmentIds, req.user.id, {
+          ticketId: ticket.id,
+          messageId: message.id
+        });
+      }
+
+      await incrementUnread(ticket.id, receiverId);
+
+      if (req.user.role === 'customer') {
+        await queueAutomations(ticket, ['message_received'], { content });
+      }
+
+      res.json(message);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+
+  // Acknowledge that messages reached the recipient's client. Without messageIds it covers
+  // everything still waiting for the user, for clients catching up after being offline.
+  app.post("/api/messages/delivered", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const { messageIds } = req.body;
+
+      if (messageIds === undefined) {
+        return res.json({ messageIds: await markDelivered({ receiverId: req.user.id }) });
+      }
+
+      if (!Array.isArray(messageIds) || !messageIds.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ error: "messageIds must be a list of message IDs" });
+      }
+
+      if (messageIds.length === 0) {
+        return res.json({ messageIds: [] });
+      }
+
+      res.json({ messageIds: await markDelivered({ receiverId: req.user.id, messageIds }) });
+    } catch (error) {
+      console.error('Error marking messages delivered:', error);
+      res.status(500).json({ error: "Failed to update message status" });
+    }
+  });
+
+  // Mark the other side's messages in a ticket chat as read. Staff read on behalf of
+  // the business, so any of them seeing the customer's messages counts.
+  app.post("/api/tickets/:id/messages/read", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const ticket = await loadTicketForChat(req, res, parseInt(req.params.id));
+      if (!ticket) return;
+
+      const messageIds = await markRead(
+        req.user.role === 'customer'
+          ? { ticketId: ticket.id, receiverId: req.user.id }
+          : { ticketId: ticket.id, senderId: ticket.customer_id }
+      );
+
+      await clearUnread(ticket.id, req.user.id);
+
+      res.json({ messageIds });
+    } catch (error) {
+      console.error('Error marking messages read:', error);
+      res.status(500).json({ error: "Failed to update message status" });
     }
   });
 
+  // Total unread ticket messages for the current user, shown in the dashboard header
+  app.get("/api/messages/unread", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const unreadCounts = await getUnreadCounts(req.user.id);
+      const total = Array.from(unreadCounts.values()).reduce((sum, count) => sum + count, 0);
+
+      res.json({ total });
+    } catch (error) {
+      console.error('Error fetching unread total:', error);
+      res.status(500).json({ error: "Failed to fetch unread messages" });
+    }
+  });
+
+  // How long senders have to edit or delete a message
+  app.get("/api/messages/edit-window", (req: Request, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    res.json({ minutes: MESSAGE_EDIT_WINDOW_MINUTES });
+  });
+
+  // Edit a message, keeping the previous version in its history
+  app.patch("/api/messages/:id", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const content = sanitizeMessageContent(req.body.content);
+
+      if (!content) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+
+      if (content.length > MAX_MESSAGE_LENGTH) {
+        return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+      }
+
+      const message = await loadEditableMessage(req, res);
+      if (!message) return;
+
+      if (content === message.content) {
+        return res.json(message);
+      }
+
+      const now = new Date().toISOString();
+
+      const { error: historyError } = await supabase
+        .from('message_edits')
+        .insert({
+          message_id: message.id,
+          edited_by_id: req.user.id,
+          action: 'edit',
+          previous_content: message.content,
+          created_at: now
+        });
+
+      if (historyError) {
+        console.error('Error recording message edit:', historyError);
+        return res.status(500).json({ error: "Failed to edit message" });
+      }
+
+      const { data: updatedMessage, error } = await supabase
+        .from('messages')
+        .update({ content, edited_at: now })
+        .eq('id', message.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error editing message:', error);
+        return res.status(500).json({ error: "Failed to edit message" });
+      }
+
+      res.json(updatedMessage);
+    } catch (error) {
+      console.error('Error editing message:', error);
+      res.status(500).json({ error: "Failed to edit message" });
+    }
+  });
+
+  // Retract a message. The row stays as a tombstone so the conversation keeps its shape.
+  app.delete("/api/messages/:id", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const message = await loadEditableMessage(req, res);
+      if (!message) return;
+
+      const now = new Date().toISOString();
+
+      const { error: historyError } = await supabase
+        .from('message_edits')
+        .insert({
+          message_id: message.id,
+          edited_by_id: req.user.id,
+          action: 'delete',
+          previous_content: message.content,
+          created_at: now
+        });
+
+      if (historyError) {
+        console.error('Error recording message deletion:', historyError);
+        return res.status(500).json({ error: "Failed to delete message" });
+      }
+
+      const { data: deletedMessage, error } = await supabase
+        .from('messages')
+        .update({ content: '', deleted_at: now })
+        .eq('id', message.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error deleting message:', error);
+        return res.status(500).json({ error: "Failed to delete message" });
+      }
+
+      res.json(deletedMessage);
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      res.status(500).json({ error: "Failed to delete message" });
+    }
+  });
+
+  // Edit and deletion history of a ticket message, for the business handling the ticket
+  app.get("/api/messages/:id/edits", async (req: Request, res) => {
+    try {
+      const { data: message } = await supabase
+        .from('messages')
+        .select('id, ticket_id')
+        .eq('id', parseInt(req.params.id))
+        .single();
+
+      if (!message?.ticket_id) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const ticket = await loadTicketAccess(req, res, message.ticket_id, 'tickets:work');
+      if (!ticket) return;
+
+      const { data: edits, error } = await supabase
+        .from('message_edits')
+        .select(`
+          *,
+          edited_by:users!edited_by_id(
+            id,
+            username
+          )
+        `)
+        .eq('message_id', message.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching message history:', error);
+        return res.status(500).json({ error: "Failed to fetch message history" });
+      }
+
+      res.json(edits);
+    } catch (error) {
+      console.error('Error fetching message history:', error);
+      res.status(500).json({ error: "Failed to fetch message history" });
+    }
+  });
+
+  // Serve one set of analytics for the business, filtered by date range and category
+  const analyticsRoute = (
+    name: string,
+    getMetrics: (businessProfileId: number, filters: AnalyticsFilters) => Promise<unknown>
+  ) => async (req: Request, res: Response) => {
+    try {
+      const parsed = parseAnalyticsFilters(req.query);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      res.json(await getMetrics(req.access!.businessProfileId, parsed.values));
+    } catch (error) {
+      console.error(`Error fetching ${name} analytics:`, error);
+      res.status(500).json({ error: `Failed to fetch ${name} analytics` });
+    }
+  };
+
+  app.get("/api/analytics/tickets", requireBusinessPermission('analytics:view'), analyticsRoute('ticket', getTicketMetrics));
+  app.get("/api/analytics/feedback", requireBusinessPermission('analytics:view'), analyticsRoute('feedback', getFeedbackMetrics));
+  app.get("/api/analytics/employees", requireBusinessPermission('analytics:view'), analyticsRoute('employee', getEmployeeMetrics));
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import type { Express, Request } from "express";
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "@db/index";
+import { tickets } from "@db/schema";
+import { getUserBusinessIds } from "./direct-messages";
+
+const RESULT_LIMIT = 20;
+const MAX_RESULT_LIMIT = 100;
+const MAX_QUERY_LENGTH = 200;
+
+// Matched words come back wrapped in <mark> tags; everything else is plain text
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2';
+
+// The same expressions the GIN indexes in db/schema.ts are built on, so searches can use them
+const TICKET_DOCUMENT = sql`(setweight(to_tsvector('english', t.title), 'A') || setweight(to_tsvector('english', t.description), 'B'))`;
+const MESSAGE_DOCUMENT = sql`to_tsvector('english', m.content)`;
+const NOTE_DOCUMENT = sql`to_tsvector('english', n.content)`;
+
+interface SearchFilters {
+  status?: string;
+  category?: string;
+  priority?: string;
+  // A user id, or "none" for unassigned tickets
+  assigneeId?: number | 'none';
+  from?: string;
+  to?: string;
+}
+
+function parseDate(value: unknown, endOfDay = false) {
+  if (typeof value !== 'string' || !value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  // A bare date in "to" covers that whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  return date.toISOString();
+}
+
+function parseFilters(query: Request['query']): { filters: SearchFilters } | { error: string } {
+  const filters: SearchFilters = {};
+  const choice = (field: 'status' | 'category' | 'priority', allowed: readonly string[]) => {
+    const value = query[field];
+    if (value === undefined || value === '' || value === 'all') return true;
+    if (typeof value !== 'string' || !allowed.includes(value)) return false;
+    filters[field] = value;
+    return true;
+  };
+
+  if (!choice('status', tickets.status.enumValues)) return { error: "Invalid status" };
+  if (!choice('category', tickets.category.enumValues)) return { error: "Invalid category" };
+  if (!choice('priority', tickets.priority.enumValues)) return { error: "Invalid priority" };
+
+  if (query.assigneeId === 'none') {
+    filters.assigneeId = 'none';
+  } else if (query.assigneeId !== undefined && query.assigneeId !== '' && query.assigneeId !== 'all') {
+    const assigneeId = parseInt(String(query.assigneeId));
+    if (!Number.isInteger(assigneeId)) return { error: "Invalid assignee" };
+    filters.assigneeId = assigneeId;
+  }
+
+  const from = parseDate(query.from);
+  const to = parseDate(query.to, true);
+  if (from === null || to === null) return { error: "Dates must be valid ISO dates" };
+  filters.from = from;
+  filters.to = to;
+
+  return { filters };
+}
+
+// Conditions on the ticket alias "t" shared by every kind of match
+function ticketConditions(scope: SQL, filters: SearchFilters) {
+  const conditions = [scope];
+
+  if (filters.status) conditions.push(sql`t.status = ${filters.status}`);
+  if (filters.category) conditions.push(sql`t.category = ${filters.category}`);
+  if (filters.priority) conditions.push(sql`t.priority = ${filters.priority}`);
+
+  if (filters.assigneeId === 'none') {
+    conditions.push(sql`t.claimed_by_id is null`);
+  } else if (filters.assigneeId) {
+    conditions.push(sql`t.claimed_by_id = ${filters.assigneeId}`);
+  }
+
+  return conditions;
+}
+
+// The date range applies to whatever matched: the ticket's creation, or when the message or note was written
+function dateConditions(column: SQL, filters: SearchFilters) {
+  const conditions: SQL[] = [];
+  if (filters.from) conditions.push(sql`${column} >= ${filters.from}`);
+  if (filters.to) conditions.push(sql`${column} < ${filters.to}`);
+  return conditions;
+}
+
+const where = (conditions: SQL[]) => sql.join(conditions, sql` and `);
+
+export function setupSearch(app: Express) {
+  // Search ticket titles and descriptions, ticket messages and, for staff, internal notes.
+  // Customers only see their own tickets; staff see the businesses they own or work for.
+  app.get("/api/search", async (req: Request, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+      if (!q) {
+        return res.status(400).json({ error: "Search text is required" });
+      }
+
+      if (q.length > MAX_QUERY_LENGTH) {
+        return res.status(400).json({ error: `Searches can be at most ${MAX_QUERY_LENGTH} characters` });
+      }
+
+      const parsed = parseFilters(req.query);
+
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const { filters } = parsed;
+      const isCustomer = req.user.role === 'customer';
+      let scope: SQL;
+
+      if (isCustomer) {
+        scope = sql`t.customer_id = ${req.user.id}`;
+      } else {
+        let businessIds = await getUserBusinessIds(req.user.id);
+
+        // Employees can narrow the search to one of their businesses
+        if (req.query.businessProfileId) {
+          const businessProfileId = parseInt(String(req.query.businessProfileId));
+          if (!businessIds.includes(businessProfileId)) {
+            return res.status(403).json({ error: "No access to this business" });
+          }
+          businessIds = [businessProfileId];
+        }
+
+        if (businessIds.length === 0) {
+          return res.json({ results: [] });
+        }
+
+        scope = sql`t.business_profile_id in (${sql.join(businessIds.map(id => sql`${id}`), sql`, `)})`;
+      }
+
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || RESULT_LIMIT, 1), MAX_RESULT_LIMIT);
+      const query = sql`websearch_to_tsquery('english', ${q})`;
+      const shared = ticketConditions(scope, filters);
+
+      const ticketMatches = sql`
+        select 'ticket' as type, t.id as id, t.id as ticket_id, t.created_at as matched_at,
+               ts_headline('english', t.title || ' ' || t.description, q, ${HEADLINE_OPTIONS}) as snippet,
+               ts_rank(${TICKET_DOCUMENT}, q) as rank
+        from tickets t cross join ${query} as q
+        where ${where([sql`${TICKET_DOCUMENT} @@ q`, ...shared, ...dateConditions(sql`t.created_at`, filters)])}
+      `;
+
+      const messageMatches = sql`
+        select 'message', m.id, t.id, m.sent_at,
+               ts_headline('english', m.content, q, ${HEADLINE_OPTIONS}),
+               ts_rank(${MESSAGE_DOCUMENT}, q)
+        from messages m join tickets t on t.id = m.ticket_id cross join ${query} as q
+        where ${where([sql`${MESSAGE_DOCUMENT} @@ q`, sql`m.deleted_at is null`, ...shared, ...dateConditions(sql`m.sent_at`, filters)])}
+      `;
+
+      // Internal notes never reach customers
+      const noteMatches = sql`
+        select 'note', n.id, t.id, n.created_at,
+               ts_headline('english', n.content, q, ${HEADLINE_OPTIONS}),
+               ts_rank(${NOTE_DOCUMENT}, q)
+        from ticket_notes n join tickets t on t.id = n.ticket_id cross join ${query} as q
+        where ${where([sql`${NOTE_DOCUMENT} @@ q`, ...shared, ...dateConditions(sql`n.created_at`, filters)])}
+      `;
+
+      const matches = isCustomer
+        ? sql`${ticketMatches} union all ${messageMatches}`
+        : sql`${ticketMatches} union all ${messageMatches} union all ${noteMatches}`;
+
+      const results = await db.execute(sql`
+        select hits.type, hits.id, hits.ticket_id, hits.matched_at, hits.snippet, hits.rank,
+               t.title as ticket_title, t.status, t.category, t.priority, t.business_profile_id,
+               t.claimed_by_id as assignee_id, assignee.username as assignee_username
+        from (${matches}) hits
+        join tickets t on t.id = hits.ticket_id
+        left join users assignee on assignee.id = t.claimed_by_id
+        order by hits.rank desc, hits.matched_at desc
+        limit ${limit}
+      `);
+
+      res.json({ results });
+    } catch (error) {
+      console.error('Error searching tickets:', error);
+      res.status(500).json({ error: "Failed to search tickets" });
+    }
+  });
+}
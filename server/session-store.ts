@@ -0,0 +1,126 @@
+import session from "express-session";
+import { supabase } from "@db/index";
+
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+interface SessionRow {
+  sid: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// express-session store backed by the sessions table
+export class SupabaseSessionStore extends session.Store {
+  private ttl: number;
+
+  constructor(ttl: number) {
+    super();
+    this.ttl = ttl;
+
+    // Clear out expired sessions so the table does not grow forever
+    setInterval(() => {
+      this.prune().catch(error => console.error('Error pruning sessions:', error));
+    }, PRUNE_INTERVAL).unref();
+  }
+
+  private expiresAt(sess: session.SessionData) {
+    return sess.cookie?.expires
+      ? new Date(sess.cookie.expires).toISOString()
+      : new Date(Date.now() + this.ttl).toISOString();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    supabase
+      .from('sessions')
+      .select('data, expires_at')
+      .eq('sid', sid)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) return callback(error);
+        if (!data) return callback(null, null);
+
+        if (new Date(data.expires_at) <= new Date()) {
+          return this.destroy(sid, (err) => callback(err, null));
+        }
+
+        callback(null, data.data);
+      });
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    const now = new Date().toISOString();
+
+    supabase
+      .from('sessions')
+      .upsert({
+        sid,
+        user_id: sess.user?.id ?? null,
+        data: sess,
+        user_agent: sess.userAgent ?? null,
+        ip_address: sess.ipAddress ?? null,
+        expires_at: this.expiresAt(sess),
+        updated_at: now
+      }, { onConflict: 'sid' })
+      .then(({ error }) => callback?.(error ?? undefined));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    supabase
+      .from('sessions')
+      .delete()
+      .eq('sid', sid)
+      .then(({ error }) => callback?.(error ?? undefined));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void) {
+    supabase
+      .from('sessions')
+      .update({
+        expires_at: this.expiresAt(sess),
+        updated_at: new Date().toISOString()
+      })
+      .eq('sid', sid)
+      .then(({ error }) => {
+        if (error) console.error('Error touching session:', error);
+        callback?.();
+      });
+  }
+
+  // Unexpired sessions belonging to a user, most recently active first
+  async listUserSessions(userId: number): Promise<SessionRow[]> {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('sid, user_agent, ip_address, expires_at, created_at, updated_at')
+      .eq('user_id', userId)
+      .gt('expires_at', new Date().toISOString())
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Sign a user out everywhere except the given session. Returns how many were removed.
+  async destroyOtherSessions(userId: number, keepSid: string) {
+    const { data, error } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('user_id', userId)
+      .neq('sid', keepSid)
+      .select('sid');
+
+    if (error) throw error;
+    return data?.length || 0;
+  }
+
+  private async prune() {
+    const { error } = await supabase
+      .from('sessions')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,288 @@
+import { sql } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { tickets, type BusinessHours } from "@db/schema";
+import type { TicketRow } from "./permissions";
+
+// A pending target counts as at risk once less than this share of its window is left
+const AT_RISK_RATIO = 0.25;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+interface SlaTarget {
+  dueAt: string;
+  state: SlaState;
+}
+
+interface SlaPolicyRow {
+  id: number;
+  priority: string | null;
+  category: string | null;
+  first_response_minutes: number;
+  next_response_minutes: number | null;
+  resolution_minutes: number;
+  business_hours: BusinessHours | null;
+}
+
+// What a ticket's messages and history say about its targets; see getSlaActivity
+export interface SlaActivity {
+  ticket_id: number;
+  first_reply_at: string | null;
+  last_message_at: string | null;
+  last_from_customer: boolean | null;
+  resolved_at: string | null;
+}
+
+function toMinuteOfDay(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Add minutes to a start time, only counting time inside business hours when given
+export function addBusinessMinutes(from: Date, minutes: number, hours?: BusinessHours | null) {
+  if (!hours || !hours.days.length || toMinuteOfDay(hours.end) <= toMinuteOfDay(hours.start)) {
+    return new Date(from.getTime() + minutes * MINUTE);
+  }
+
+  const start = toMinuteOfDay(hours.start);
+  const end = toMinuteOfDay(hours.end);
+
+  // Walk the business's wall clock by shifting into UTC and back again at the end
+  const offset = hours.utcOffsetMinutes * MINUTE;
+  let cursor = from.getTime() + offset;
+  let remaining = minutes;
+
+  while (remaining > 0) {
+    const date = new Date(cursor);
+    const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    const minuteOfDay = (cursor - dayStart) / MINUTE;
+
+    if (!hours.days.includes(date.getUTCDay()) || minuteOfDay >= end) {
+      cursor = dayStart + DAY + start * MINUTE;
+      continue;
+    }
+
+    if (minuteOfDay < start) {
+      cursor = dayStart + start * MINUTE;
+      continue;
+    }
+
+    const used = Math.min(end - minuteOfDay, remaining);
+    cursor += used * MINUTE;
+    remaining -= used;
+  }
+
+  return new Date(cursor - offset);
+}
+
+// Pick the most specific policy matching the ticket's priority and category
+export async function findSlaPolicy(businessProfileId: number, priority: string, category: string) {
+  const { data: policies, error } = await supabase
+    .from('sla_policies')
+    .select('*')
+    .eq('business_profile_id', businessProfileId);
+
+  if (error) {
+    console.error('Error fetching SLA policies:', error);
+    return null;
+  }
+
+  const specificity = (policy: SlaPolicyRow) =>
+    (policy.priority ? 2 : 0) + (policy.category ? 1 : 0);
+
+  return (policies as SlaPolicyRow[] || [])
+    .filter(policy =>
+      (!policy.priority || policy.priority === priority) &&
+      (!policy.category || policy.category === category))
+    .sort((a, b) => specificity(b) - specificity(a))[0] || null;
+}
+
+// Due dates to store on a ticket, counted from when it was opened
+export async function computeSlaDueDates(
+  businessProfileId: number,
+  priority: string,
+  category: string,
+  openedAt: Date
+) {
+  const policy = await findSlaPolicy(businessProfileId, priority, category);
+
+  if (!policy) {
+    return {
+      sla_policy_id: null,
+      first_response_due_at: null,
+      resolution_due_at: null
+    };
+  }
+
+  return {
+    sla_policy_id: policy.id,
+    first_response_due_at: addBusinessMinutes(openedAt, policy.first_response_minutes, policy.business_hours).toISOString(),
+    resolution_due_at: addBusinessMinutes(openedAt, policy.resolution_minutes, policy.business_hours).toISOString()
+  };
+}
+
+function pendingState(startedAt: Date, dueAt: Date, now: Date): SlaState {
+  const remaining = dueAt.getTime() - now.getTime();
+  if (remaining <= 0) return 'breached';
+
+  const window = dueAt.getTime() - startedAt.getTime();
+  return remaining < window * AT_RISK_RATIO ? 'at_risk' : 'on_track';
+}
+
+function completedState(completedAt: Date, dueAt: Date): SlaState {
+  return completedAt.getTime() <= dueAt.getTime() ? 'met' : 'breached';
+}
+
+// The first staff reply, the latest message and the last move to resolved of each ticket,
+// grouped in the database so long ticket lists don't have to load every message
+export async function getSlaActivity(ticketIds: number[]) {
+  const activity = new Map<number, SlaActivity>();
+  if (ticketIds.length === 0) return activity;
+
+  const rows = await db.execute(sql`
+    select t.id as ticket_id,
+           min(m.created_at) filter (where m.sender_id::text <> t.customer_id::text) as first_reply_at,
+           max(m.created_at) as last_message_at,
+           (array_agg(m.sender_id::text = t.customer_id::text order by m.created_at desc))[1] as last_from_customer,
+           (select max(h.created_at) from ticket_history h
+            where h.ticket_id = t.id and h.field = 'status' and h.to_value = 'resolved') as resolved_at
+    from tickets t
+    left join messages m on m.ticket_id = t.id
+    where t.id in (${sql.join(ticketIds.map(id => sql`${id}`), sql`, `)})
+    group by t.id
+  `);
+
+  for (const row of rows as unknown as SlaActivity[]) {
+    activity.set(row.ticket_id, row);
+  }
+
+  return activity;
+}
+
+// SLA status for a ticket as of now, derived from its stored due dates and its message activity
+export function getTicketSla(
+  ticket: TicketRow,
+  policy: SlaPolicyRow | null,
+  activity: SlaActivity | undefined,
+  now = new Date()
+) {
+  if (!policy || !ticket.first_response_due_at || !ticket.resolution_due_at) {
+    return null;
+  }
+
+  const openedAt = new Date(ticket.created_at);
+  const isResolved = ticket.status === 'resolved';
+  const firstReplyAt = activity?.first_reply_at ?? null;
+
+  const firstResponseDue = new Date(ticket.first_response_due_at);
+  const firstResponse: SlaTarget = {
+    dueAt: ticket.first_response_due_at,
+    state: firstReplyAt
+      ? completedState(new Date(firstReplyAt), firstResponseDue)
+      : isResolved
+        ? 'met'
+        : pendingState(openedAt, firstResponseDue, now)
+  };
+
+  // Once staff have replied, every customer message restarts the next response clock
+  let nextResponse: SlaTarget | null = null;
+  if (firstReplyAt && policy.next_response_minutes && activity?.last_message_at && activity.last_from_customer && !isResolved) {
+    const waitingSince = new Date(activity.last_message_at);
+    const dueAt = addBusinessMinutes(waitingSince, policy.next_response_minutes, policy.business_hours);
+    nextResponse = {
+      dueAt: dueAt.toISOString(),
+      state: pendingState(waitingSince, dueAt, now)
+    };
+  }
+
+  // Later edits move updated_at, so resolution is timed from the history entry.
+  // Tickets resolved before history was kept fall back to it.
+  const resolutionDue = new Date(ticket.resolution_due_at);
+  const resolution: SlaTarget = {
+    dueAt: ticket.resolution_due_at,
+    state: isResolved
+      ? completedState(new Date(activity?.resolved_at ?? ticket.updated_at), resolutionDue)
+      : pendingState(openedAt, resolutionDue, now)
+  };
+
+  const pending: SlaTarget[] = [];
+  if (!firstReplyAt && !isResolved) pending.push(firstResponse);
+  if (nextResponse) pending.push(nextResponse);
+  if (!isResolved) pending.push(resolution);
+
+  const severity: Record<SlaState, number> = { breached: 0, at_risk: 1, on_track: 2, met: 3 };
+  pending.sort((a, b) => severity[a.state] - severity[b.state] ||
+    new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+
+  return {
+    policyId: policy.id,
+    firstResponse,
+    nextResponse,
+    resolution,
+    state: pending[0]?.state ?? null,
+    dueAt: pending[0]?.dueAt ?? null
+  };
+}
+
+function isPositiveInteger(value: unknown) {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+// Validate an SLA policy request body and map it to table columns
+export function parseSlaPolicy(body: unknown): { error: string } | { values: Record<string, unknown> } {
+  const fields: Record<string, unknown> = typeof body === 'object' && body !== null ? { ...body } : {};
+  const {
+    priority = null,
+    category = null,
+    firstResponseMinutes,
+    nextResponseMinutes = null,
+    resolutionMinutes,
+    businessHours = null
+  } = fields;
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+
+  if (!name) {
+    return { error: "Policy name is required" };
+  }
+
+  if (priority !== null && !tickets.priority.enumValues.includes(priority as TicketRow['priority'])) {
+    return { error: "Invalid priority" };
+  }
+
+  if (category !== null && !tickets.category.enumValues.includes(category as TicketRow['category'])) {
+    return { error: "Invalid category" };
+  }
+
+  if (!isPositiveInteger(firstResponseMinutes) || !isPositiveInteger(resolutionMinutes) ||
+      (nextResponseMinutes !== null && !isPositiveInteger(nextResponseMinutes))) {
+    return { error: "Response and resolution targets must be positive whole minutes" };
+  }
+
+  if (businessHours !== null) {
+    const { days, start, end, utcOffsetMinutes }: Record<string, unknown> =
+      typeof businessHours === 'object' ? { ...businessHours } : {};
+    const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+    if (!Array.isArray(days) || days.length === 0 ||
+        days.some((day: unknown) => !Number.isInteger(day) || (day as number) < 0 || (day as number) > 6) ||
+        typeof start !== 'string' || typeof end !== 'string' ||
+        !timePattern.test(start) || !timePattern.test(end) || end <= start ||
+        !Number.isInteger(utcOffsetMinutes)) {
+      return { error: "Invalid business hours" };
+    }
+  }
+
+  return {
+    values: {
+      name,
+      priority,
+      category,
+      first_response_minutes: firstResponseMinutes,
+      next_response_minutes: nextResponseMinutes,
+      resolution_minutes: resolutionMinutes,
+      business_hours: businessHours
+    }
+  };
+}
@@ -0,0 +1,550 @@
+import type { Express, Request, Response } from "express";
+import { sql } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { getBusinessRole, hasPermission, requireBusinessPermission, type BusinessRole } from "./permissions";
+import { MAX_MESSAGE_LENGTH, sanitizeMessageContent } from "./message-content";
+
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_CHANNEL_NAME_LENGTH = 50;
+
+const CHANNEL_MESSAGE_SELECT = `
+  *,
+  sender:users!sender_id(
+    id,
+    username,
+    role
+  )
+`;
+
+interface TeamChannelRow {
+  id: number;
+  business_profile_id: number;
+  name: string;
+  description: string | null;
+  created_by_id: number;
+  created_at: string;
+}
+
+interface ChannelUser {
+  id: number;
+  username: string;
+}
+
+// The latest message in a channel and what the user hasn't read; see getChannelActivity
+interface ChannelActivity {
+  channel_id: number;
+  unread_count: number;
+  mention_count: number;
+  content: string | null;
+  created_at: string | null;
+  sender_id: number | null;
+  sender_username: string | null;
+}
+
+// Channel names are lowercase words joined by dashes, like Slack's
+function normalizeChannelName(name: unknown) {
+  if (typeof name !== 'string') return '';
+  return name
+    .trim()
+    .replace(/^#/, '')
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Everyone who works in a business: the owner plus active employees
+async function getBusinessMembers(businessProfileId: number) {
+  const [{ data: businessProfile }, { data: connections }] = await Promise.all([
+    supabase
+      .from('business_profiles')
+      .select('owner:users!user_id(id, username)')
+      .eq('id', businessProfileId)
+      .single<{ owner: ChannelUser | null }>(),
+    supabase
+      .from('business_employees')
+      .select('employee:users!employee_id(id, username)')
+      .eq('business_profile_id', businessProfileId)
+      .eq('is_active', true)
+      .returns<{ employee: ChannelUser | null }[]>()
+  ]);
+
+  return [
+    ...(businessProfile?.owner ? [businessProfile.owner] : []),
+    ...(connections || []).flatMap(({ employee }) => employee ? [employee] : [])
+  ];
+}
+
+// Channel members named with @username in a message
+async function resolveMentions(channelId: number, content: string) {
+  const usernames = Array.from(new Set(
+    Array.from(content.matchAll(/@([\w.-]+)/g), match => match[1].toLowerCase())
+  ));
+
+  if (usernames.length === 0) return [];
+
+  const { data: members } = await supabase
+    .from('team_channel_members')
+    .select('user:users!user_id(id, username)')
+    .eq('channel_id', channelId)
+    .returns<{ user: ChannelUser | null }[]>();
+
+  return (members || []).flatMap(({ user }) =>
+    user && usernames.includes(user.username.toLowerCase()) ? [user.id] : []
+  );
+}
+
+// Load a channel and check the current user works in its business.
+// Sends the error response and returns null otherwise.
+async function loadChannelAccess(req: Request, res: Response, channelId: number, { requireMembership = true } = {}) {
+  if (!req.user || !['business', 'employee'].includes(req.user.role)) {
+    res.status(403).json({ error: "Only business and employees can use team channels" });
+    return null;
+  }
+
+  const { data: channel } = await supabase
+    .from('team_channels')
+    .select('*')
+    .eq('id', channelId)
+    .maybeSingle<TeamChannelRow>();
+
+  if (!channel) {
+    res.status(404).json({ error: "Channel not found" });
+    return null;
+  }
+
+  const role = await getBusinessRole(req, channel.business_profile_id);
+
+  if (!role) {
+    res.status(403).json({ error: "You do not have access to this channel" });
+    return null;
+  }
+
+  const { data: membership } = await supabase
+    .from('team_channel_members')
+    .select('*')
+    .eq('channel_id', channelId)
+    .eq('user_id', req.user.id)
+    .maybeSingle();
+
+  if (requireMembership && !membership) {
+    res.status(403).json({ error: "Join the channel to see its messages" });
+    return null;
+  }
+
+  return { channel, role: role as BusinessRole, membership };
+}
+
+// For each channel the user belongs to: its latest message, the messages the user
+// has not read yet, and how many of those mention them
+async function getChannelActivity(userId: number, channelIds: number[]) {
+  const activity = new Map<number, ChannelActivity>();
+  if (channelIds.length === 0) return activity;
+
+  const unread = sql`m.sender_id <> ${userId} and m.id > coalesce(mem.last_read_message_id, 0)`;
+
+  const rows = await db.execute(sql`
+    select counts.channel_id, counts.unread_count, counts.mention_count,
+           last.content, last.created_at, sender.id as sender_id, sender.username as sender_username
+    from (
+      select mem.channel_id, max(m.id) as last_message_id,
+             (count(m.id) filter (where ${unread}))::int as unread_count,
+             (count(m.id) filter (where ${unread} and m.mentions @> ${JSON.stringify([userId])}::jsonb))::int as mention_count
+      from team_channel_members mem
+      left join team_channel_messages m on m.channel_id = mem.channel_id
+      where mem.user_id = ${userId}
+        and mem.channel_id in (${sql.join(channelIds.map(id => sql`${id}`), sql`, `)})
+      group by mem.channel_id
+    ) counts
+    left join team_channel_messages last on last.id = counts.last_message_id
+    left join users sender on sender.id = last.sender_id
+  `);
+
+  for (const row of rows as unknown as ChannelActivity[]) {
+    activity.set(row.channel_id, row);
+  }
+
+  return activity;
+}
+
+export function setupTeamChannels(app: Express) {
+  // Every channel in the business, with unread counts for the ones the user belongs to
+  app.get("/api/team-channels", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const userId = req.user!.id;
+
+      const { data: channels, error } = await supabase
+        .from('team_channels')
+        .select('*, members:team_channel_members(user_id)')
+        .eq('business_profile_id', req.access!.businessProfileId)
+        .order('name')
+        .returns<(TeamChannelRow & { members: { user_id: number }[] })[]>();
+
+      if (error) {
+        console.error('Error fetching team channels:', error);
+        return res.status(500).json({ error: "Failed to fetch channels" });
+      }
+
+      const memberOf = (channels || [])
+        .filter(channel => channel.members.some(member => member.user_id === userId))
+        .map(channel => channel.id);
+
+      const activity = await getChannelActivity(userId, memberOf);
+
+      const result = (channels || []).map(({ members, ...channel }) => {
+        const channelActivity = activity.get(channel.id);
+
+        return {
+          ...channel,
+          memberCount: members.length,
+          isMember: memberOf.includes(channel.id),
+          lastMessage: channelActivity?.content != null
+            ? {
+              content: channelActivity.content,
+              created_at: channelActivity.created_at,
+              sender: { id: channelActivity.sender_id, username: channelActivity.sender_username }
+            }
+            : undefined,
+          unreadCount: channelActivity?.unread_count ?? 0,
+          mentionCount: channelActivity?.mention_count ?? 0
+        };
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error fetching team channels:', error);
+      res.status(500).json({ error: "Failed to fetch channels" });
+    }
+  });
+
+  app.post("/api/team-channels", requireBusinessPermission('tickets:work'), async (req: Request, res) => {
+    try {
+      const userId = req.user!.id;
+      const businessProfileId = req.access!.businessProfileId;
+      const name = normalizeChannelName(req.body.name);
+
+      if (!name) {
+        return res.status(400).json({ error: "Channel name is required" });
+      }
+
+      if (name.length > MAX_CHANNEL_NAME_LENGTH) {
+        return res.status(400).json({ error: `Channel names can be at most ${MAX_CHANNEL_NAME_LENGTH} characters` });
+      }
+
+      const { data: existing } = await supabase
+        .from('team_channels')
+        .select('id')
+        .eq('business_profile_id', businessProfileId)
+        .eq('name', name)
+        .maybeSingle();
+
+      if (existing) {
+        return res.status(409).json({ error: `#${name} already exists` });
+      }
+
+      // Only colleagues from the same business can be added
+      const businessMemberIds = (await getBusinessMembers(businessProfileId)).map(member => member.id);
+      const requestedIds: number[] = Array.isArray(req.body.memberIds) ? req.body.memberIds.map(Number) : [];
+      const memberIds = Array.from(new Set([userId, ...requestedIds.filter(id => businessMemberIds.includes(id))]));
+
+      const { data: channel, error } = await supabase
+        .from('team_channels')
+        .insert({
+          business_profile_id: businessProfileId,
+          name,
+          description: typeof req.body.description === 'string' ? req.body.description.trim() || null : null,
+          created_by_id: userId,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating team channel:', error);
+        return res.status(500).json({ error: "Failed to create channel" });
+      }
+
+      const { error: membersError } = await supabase
+        .from('team_channel_members')
+        .insert(memberIds.map(memberId => ({
+          channel_id: channel.id,
+          user_id: memberId,
+          joined_at: new Date().toISOString()
+        })));
+
+      if (membersError) {
+        console.error('Error adding channel members:', membersError);
+        return res.status(500).json({ error: "Failed to add channel members" });
+      }
+
+      res.json(channel);
+    } catch (error) {
+      console.error('Error creating team channel:', error);
+      res.status(500).json({ error: "Failed to create channel" });
+    }
+  });
+
+  // The creator or an admin can delete a channel along with its history
+  app.delete("/api/team-channels/:id", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id), { requireMembership: false });
+      if (!access) return;
+
+      if (access.channel.created_by_id !== req.user!.id && !hasPermission(access.role, 'employees:manage')) {
+        return res.status(403).json({ error: "Only the channel creator or an admin can delete it" });
+      }
+
+      const channelId = access.channel.id;
+
+      const [{ error: messagesError }, { error: membersError }] = await Promise.all([
+        supabase.from('team_channel_messages').delete().eq('channel_id', channelId),
+        supabase.from('team_channel_members').delete().eq('channel_id', channelId)
+      ]);
+
+      const { error } = messagesError || membersError
+        ? { error: messagesError || membersError }
+        : await supabase.from('team_channels').delete().eq('id', channelId);
+
+      if (error) {
+        console.error('Error deleting team channel:', error);
+        return res.status(500).json({ error: "Failed to delete channel" });
+      }
+
+      res.json({ message: "Channel deleted" });
+    } catch (error) {
+      console.error('Error deleting team channel:', error);
+      res.status(500).json({ error: "Failed to delete channel" });
+    }
+  });
+
+  app.get("/api/team-channels/:id/members", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id), { requireMembership: false });
+      if (!access) return;
+
+      const { data: members, error } = await supabase
+        .from('team_channel_members')
+        .select('joined_at, user:users!user_id(id, username, role)')
+        .eq('channel_id', access.channel.id)
+        .order('joined_at')
+        .returns<{ joined_at: string; user: ChannelUser & { role: string } }[]>();
+
+      if (error) {
+        console.error('Error fetching channel members:', error);
+        return res.status(500).json({ error: "Failed to fetch channel members" });
+      }
+
+      res.json((members || []).map(member => ({ ...member.user, joinedAt: member.joined_at })));
+    } catch (error) {
+      console.error('Error fetching channel members:', error);
+      res.status(500).json({ error: "Failed to fetch channel members" });
+    }
+  });
+
+  // Join a channel yourself, or add colleagues once you are in it
+  app.post("/api/team-channels/:id/members", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id), { requireMembership: false });
+      if (!access) return;
+
+      const userId = req.user!.id;
+      const requestedIds: number[] = Array.isArray(req.body.userIds) ? req.body.userIds.map(Number) : [userId];
+
+      if (!access.membership && requestedIds.some(id => id !== userId)) {
+        return res.status(403).json({ error: "Join the channel before adding others" });
+      }
+
+      const businessMemberIds = (await getBusinessMembers(access.channel.business_profile_id)).map(member => member.id);
+      const newMemberIds = requestedIds.filter(id => businessMemberIds.includes(id));
+
+      if (newMemberIds.length === 0) {
+        return res.status(400).json({ error: "No valid members to add" });
+      }
+
+      // New members start out having read everything posted before they joined
+      const { data: latest } = await supabase
+        .from('team_channel_messages')
+        .select('id')
+        .eq('channel_id', access.channel.id)
+        .order('id', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { error } = await supabase
+        .from('team_channel_members')
+        .upsert(
+          newMemberIds.map(memberId => ({
+            channel_id: access.channel.id,
+            user_id: memberId,
+            last_read_message_id: latest?.id ?? null,
+            joined_at: new Date().toISOString()
+          })),
+          { onConflict: 'channel_id,user_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error('Error adding channel members:', error);
+        return res.status(500).json({ error: "Failed to add channel members" });
+      }
+
+      res.json({ userIds: newMemberIds });
+    } catch (error) {
+      console.error('Error adding channel members:', error);
+      res.status(500).json({ error: "Failed to add channel members" });
+    }
+  });
+
+  // Leave a channel, or remove someone else from it as an admin
+  app.delete("/api/team-channels/:id/members/:userId", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id), { requireMembership: false });
+      if (!access) return;
+
+      const memberId = parseInt(req.params.userId);
+
+      if (memberId !== req.user!.id && !hasPermission(access.role, 'employees:manage')) {
+        return res.status(403).json({ error: "Only admins can remove other members" });
+      }
+
+      const { error } = await supabase
+        .from('team_channel_members')
+        .delete()
+        .eq('channel_id', access.channel.id)
+        .eq('user_id', memberId);
+
+      if (error) {
+        console.error('Error removing channel member:', error);
+        return res.status(500).json({ error: "Failed to remove channel member" });
+      }
+
+      res.json({ message: "Member removed" });
+    } catch (error) {
+      console.error('Error removing channel member:', error);
+      res.status(500).json({ error: "Failed to remove channel member" });
+    }
+  });
+
+  // One page of channel history, oldest first. Pass ?before=<message id> for earlier pages.
+  app.get("/api/team-channels/:id/messages", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id));
+      if (!access) return;
+
+      const limit = parseInt(String(req.query.limit));
+      const pageSize = Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : PAGE_SIZE;
+      const before = parseInt(String(req.query.before));
+
+      let query = supabase
+        .from('team_channel_messages')
+        .select(CHANNEL_MESSAGE_SELECT)
+        .eq('channel_id', access.channel.id)
+        .order('id', { ascending: false })
+        .limit(pageSize + 1);
+
+      if (before) {
+        query = query.lt('id', before);
+      }
+
+      const { data: messages, error } = await query;
+
+      if (error) {
+        console.error('Error fetching channel messages:', error);
+        return res.status(500).json({ error: "Failed to fetch messages" });
+      }
+
+      res.json({
+        messages: (messages || []).slice(0, pageSize).reverse(),
+        hasMore: (messages || []).length > pageSize,
+        lastReadMessageId: access.membership.last_read_message_id
+      });
+    } catch (error) {
+      console.error('Error fetching channel messages:', error);
+      res.status(500).json({ error: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/team-channels/:id/messages", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id));
+      if (!access) return;
+
+      const content = sanitizeMessageContent(req.body.content);
+
+      if (!content) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+
+      if (content.length > MAX_MESSAGE_LENGTH) {
+        return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+      }
+
+      const mentions = (await resolveMentions(access.channel.id, content))
+        .filter(id => id !== req.user!.id);
+
+      const { data: message, error } = await supabase
+        .from('team_channel_messages')
+        .insert({
+          channel_id: access.channel.id,
+          sender_id: req.user!.id,
+          content,
+          mentions,
+          created_at: new Date().toISOString()
+        })
+        .select(CHANNEL_MESSAGE_SELECT)
+        .single();
+
+      if (error) {
+        console.error('Error sending channel message:', error);
+        return res.status(500).json({ error: "Failed to send message" });
+      }
+
+      // The sender has obviously read everything up to their own message
+      await supabase
+        .from('team_channel_members')
+        .update({ last_read_message_id: message.id })
+        .eq('id', access.membership.id);
+
+      res.json(message);
+    } catch (error) {
+      console.error('Error sending channel message:', error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+
+  // Mark the channel read up to its latest message
+  app.post("/api/team-channels/:id/read", async (req: Request, res) => {
+    try {
+      const access = await loadChannelAccess(req, res, parseInt(req.params.id));
+      if (!access) return;
+
+      const { data: latest } = await supabase
+        .from('team_channel_messages')
+        .select('id')
+        .eq('channel_id', access.channel.id)
+        .order('id', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!latest || latest.id === access.membership.last_read_message_id) {
+        return res.json({ lastReadMessageId: access.membership.last_read_message_id });
+      }
+
+      const { error } = await supabase
+        .from('team_channel_members')
+        .update({ last_read_message_id: latest.id })
+        .eq('id', access.membership.id);
+
+      if (error) {
+        console.error('Error marking channel read:', error);
+        return res.status(500).json({ error: "Failed to update read status" });
+      }
+
+      res.json({ lastReadMessageId: latest.id });
+    } catch (error) {
+      console.error('Error marking channel read:', error);
+      res.status(500).json({ error: "Failed to update read status" });
+    }
+  });
+}
@@ -0,0 +1,54 @@
+import { supabase } from "@db/index";
+import { incrementUnread } from "./unread";
+
+// Allowed status moves. A resolved ticket can only go back to open (reopen).
+export const STATUS_TRANSITIONS: Record<string, string[]> = {
+  open: ['in_progress'],
+  in_progress: ['resolved'],
+  resolved: ['open']
+};
+
+// Whether the user is an active employee of the business
+export async function isActiveEmployee(businessProfileId: number, employeeId: number) {
+  const { data: connection } = await supabase
+    .from('business_employees')
+    .select('id')
+    .eq('business_profile_id', businessProfileId)
+    .eq('employee_id', employeeId)
+    .eq('is_active', true)
+    .single();
+
+  return !!connection;
+}
+
+// Post a satisfaction survey prompt in the ticket chat once a ticket is resolved,
+// unless the customer already left feedback on an earlier resolution
+export async function sendFeedbackSurvey(ticket: { id: number; customer_id: number }, senderId: number) {
+  const { data: feedback } = await supabase
+    .from('ticket_feedback')
+    .select('id')
+    .eq('ticket_id', ticket.id)
+    .maybeSingle();
+
+  if (feedback) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      content: "This ticket has been marked as resolved. How did we do? Please rate your support experience from 1 to 5 stars using \"Leave Feedback\" on the ticket.",
+      ticket_id: ticket.id,
+      sender_id: senderId,
+      receiver_id: ticket.customer_id,
+      status: 'sent',
+      sent_at: now,
+      created_at: now
+    });
+
+  if (error) {
+    console.error('Error sending feedback survey:', error);
+    return;
+  }
+
+  await incrementUnread(ticket.id, ticket.customer_id);
+}
@@ -0,0 +1,370 @@
+import type { Express, Request } from "express";
+import { sql, type SQL } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+import { timeRuleSettings } from "@db/schema";
+import { requireBusinessPermission, type TicketRow } from "./permissions";
+import { MAX_MESSAGE_LENGTH } from "./message-content";
+import { loadTemplateContext, renderTemplate } from "./reply-templates";
+import { logRun } from "./automations";
+import { incrementUnread } from "./unread";
+import { ensureJobScheduled, registerJobHandler } from "./jobs";
+
+const TIME_RULES_JOB = 'time_rules.run';
+
+// How often the scheduler looks for tickets the time rules apply to
+const SCHEDULER_INTERVAL = Number(process.env.TIME_RULE_INTERVAL_MINUTES || 15) * 60 * 1000;
+
+const HOUR = 60 * 60 * 1000;
+
+const DEFAULT_REMINDER_MESSAGE =
+  "Hi {{customer.username}}, we haven't heard back from you about \"{{ticket.title}}\". Is there anything else we can help with?";
+
+const AGENT_IDLE_ACTIONS = timeRuleSettings.agentIdleAction.enumValues;
+
+interface TimeRuleSettingsRow {
+  id: number;
+  business_profile_id: number;
+  auto_close_after_hours: number | null;
+  customer_reminder_after_hours: number | null;
+  customer_reminder_message: string | null;
+  agent_idle_after_hours: number | null;
+  agent_idle_action: typeof AGENT_IDLE_ACTIONS[number];
+  updated_at: string;
+}
+
+// Trigger names these rules use in the automation log
+const TRIGGERS = {
+  autoClose: 'resolved_inactivity',
+  customerReminder: 'customer_inactivity',
+  agentIdle: 'agent_inactivity'
+} as const;
+
+// Businesses that haven't saved settings have every time rule off
+const DEFAULT_SETTINGS = {
+  auto_close_after_hours: null,
+  customer_reminder_after_hours: null,
+  customer_reminder_message: null,
+  agent_idle_after_hours: null,
+  agent_idle_action: 'alert'
+};
+
+// Timestamps at or before this have been quiet for at least the given number of hours
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR).toISOString();
+
+// The ticket's most recent message, for a lateral join against tickets t
+const LAST_MESSAGE = sql`
+  select m.sender_id, m.sent_at from messages m
+  where m.ticket_id = t.id
+  order by m.sent_at desc
+  limit 1
+`;
+
+// Whether this rule already acted on the ticket since the given time, so each
+// stretch of silence is only acted on once
+const hasRunSince = (trigger: string, since: SQL) => sql`
+  exists (
+    select 1 from automation_runs r
+    where r.ticket_id = t.id and r.trigger = ${trigger} and r.created_at >= ${since}
+  )
+`;
+
+// Close resolved tickets once the customer has gone quiet for long enough after resolution
+async function autoCloseResolved(settings: TimeRuleSettingsRow, hours: number) {
+  // Later edits move updated_at, so resolution is timed from the history entry when there is one.
+  // A customer who came back after resolution leaves the ticket for an agent to reopen.
+  const rows = await db.execute(sql`
+    select t.id
+    from tickets t
+    cross join lateral (
+      select coalesce(max(h.created_at), t.updated_at) as resolved_at
+      from ticket_history h
+      where h.ticket_id = t.id and h.field = 'status' and h.to_value = 'resolved'
+    ) resolution
+    where t.business_profile_id = ${settings.business_profile_id}
+      and t.status = 'resolved' and t.closed_at is null
+      and resolution.resolved_at <= ${hoursAgo(hours)}
+      and not exists (
+        select 1 from messages m
+        where m.ticket_id = t.id and m.sender_id::text = t.customer_id::text and m.sent_at > resolution.resolved_at
+      )
+  `);
+
+  for (const ticket of rows as unknown as { id: number }[]) {
+    const { data: closed, error: closeError } = await supabase
+      .from('tickets')
+      .update({ closed_at: new Date().toISOString() })
+      .eq('id', ticket.id)
+      .eq('status', 'resolved')
+      .is('closed_at', null)
+      .select('id');
+
+    if (closeError) {
+      console.error(`Error closing ticket ${ticket.id}:`, closeError);
+      continue;
+    }
+
+    if (closed?.length) {
+      await logRun({ id: null, name: "Auto-close" }, ticket.id, TRIGGERS.autoClose, 'success',
+        [`Closed ${hours} hours after resolution with no reply from the customer`]);
+    }
+  }
+}
+
+// Nudge customers who haven't answered the last staff message
+async function remindSilentCustomers(settings: TimeRuleSettingsRow, hours: number, ownerId: number) {
+  const rows = await db.execute(sql`
+    select t.*
+    from tickets t
+    join lateral (${LAST_MESSAGE}) last_message on true
+    where t.business_profile_id = ${settings.business_profile_id}
+      and t.status in ('open', 'in_progress') and t.closed_at is null
+      and last_message.sender_id::text <> t.customer_id::text
+      and last_message.sent_at <= ${hoursAgo(hours)}
+      and not ${hasRunSince(TRIGGERS.customerReminder, sql`last_message.sent_at`)}
+  `);
+
+  for (const ticket of rows as unknown as TicketRow[]) {
+    const senderId = ticket.claimed_by_id ?? ownerId;
+    const { data: sender } = await supabase
+      .from('users')
+      .select('username')
+      .eq('id', senderId)
+      .maybeSingle();
+
+    const content = renderTemplate(
+      settings.customer_reminder_message || DEFAULT_REMINDER_MESSAGE,
+      await loadTemplateContext(ticket, sender ?? undefined)
+    );
+    const now = new Date().toISOString();
+
+    const { error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        content,
+        ticket_id: ticket.id,
+        sender_id: senderId,
+        receiver_id: ticket.customer_id,
+        status: 'sent',
+        sent_at: now,
+        created_at: now
+      });
+
+    if (messageError) {
+      console.error(`Error sending reminder on ticket ${ticket.id}:`, messageError);
+      continue;
+    }
+
+    await incrementUnread(ticket.id, ticket.customer_id);
+    await logRun({ id: null, name: "Customer reminder" }, ticket.id, TRIGGERS.customerReminder, 'success',
+      [`Reminded the customer after ${hours} hours without a reply`]);
+  }
+}
+
+// Alert the assignee, or put the ticket back in the queue, when a customer has waited too long
+async function handleIdleAgents(settings: TimeRuleSettingsRow, hours: number, ownerId: number) {
+  // The customer is waiting unless an agent spoke last. A newly claimed ticket
+  // gives its assignee the full window.
+  const rows = await db.execute(sql`
+    select t.*, assignee.username as assignee_username
+    from tickets t
+    left join users assignee on assignee.id = t.claimed_by_id
+    left join lateral (${LAST_MESSAGE}) last_message on true
+    cross join lateral (
+      select greatest(coalesce(last_message.sent_at, t.created_at), t.claimed_at) as waiting_since
+    ) waiting
+    where t.business_profile_id = ${settings.business_profile_id}
+      and t.status in ('open', 'in_progress') and t.claimed_by_id is not null and t.closed_at is null
+      and (last_message.sender_id is null or last_message.sender_id::text = t.customer_id::text)
+      and waiting.waiting_since <= ${hoursAgo(hours)}
+      and not ${hasRunSince(TRIGGERS.agentIdle, sql`waiting.waiting_since`)}
+  `);
+
+  for (const { assignee_username, ...ticket } of rows as unknown as (TicketRow & { assignee_username: string | null })[]) {
+    const assigneeName = assignee_username ?? `user ${ticket.claimed_by_id}`;
+    const now = new Date().toISOString();
+
+    if (settings.agent_idle_action === 'reopen') {
+      const { data: reopened, error: reopenError } = await supabase
+        .from('tickets')
+        .update({
+          status: 'open',
+          claimed_by_id: null,
+          claimed_at: null,
+          previous_assignee_id: ticket.claimed_by_id,
+          updated_at: now
+        })
+        .eq('id', ticket.id)
+        .eq('claimed_by_id', ticket.claimed_by_id)
+        .select('id');
+
+      if (reopenError) {
+        console.error(`Error reopening ticket ${ticket.id}:`, reopenError);
+        continue;
+      }
+
+      if (!reopened?.length) continue;
+
+      if (ticket.status !== 'open') {
+        await supabase
+          .from('ticket_history')
+          .insert({
+            ticket_id: ticket.id,
+            changed_by_id: ownerId,
+            field: 'status',
+            from_value: ticket.status,
+            to_value: 'open',
+            created_at: now
+          });
+      }
+
+      await logRun({ id: null, name: "Idle agent" }, ticket.id, TRIGGERS.agentIdle, 'success',
+        [`Returned to the queue after ${hours} hours without a reply from ${assigneeName}`]);
+      continue;
+    }
+
+    const alert = `Ticket #${ticket.id} "${ticket.title}" has waited ${hours} hours for a reply from ${assigneeName}.`;
+
+    await supabase
+      .from('ticket_notes')
+      .insert({
+        ticket_id: ticket.id,
+        author_id: ownerId,
+        content: alert,
+        created_at: now
+      });
+
+    if (ticket.claimed_by_id !== ownerId) {
+      await supabase
+        .from('direct_messages')
+        .insert({
+          content: alert,
+          sender_id: ownerId,
+          receiver_id: ticket.claimed_by_id,
+          business_profile_id: settings.business_profile_id,
+          status: 'sent',
+          sent_at: now,
+          created_at: now
+        });
+    }
+
+    await logRun({ id: null, name: "Idle agent" }, ticket.id, TRIGGERS.agentIdle, 'success',
+      [`Alerted ${assigneeName} after ${hours} hours without a reply`]);
+  }
+}
+
+// Apply every business's time rules once. One business failing doesn't hold up the rest.
+export async function runTimeRules() {
+  const { data: allSettings, error } = await supabase
+    .from('time_rule_settings')
+    .select('*, business:business_profiles!business_profile_id(user_id)')
+    .returns<(TimeRuleSettingsRow & { business: { user_id: number } })[]>();
+
+  if (error) throw error;
+
+  for (const { business, ...settings } of allSettings || []) {
+    try {
+      if (settings.auto_close_after_hours) {
+        await autoCloseResolved(settings, settings.auto_close_after_hours);
+      }
+
+      if (settings.customer_reminder_after_hours) {
+        await remindSilentCustomers(settings, settings.customer_reminder_after_hours, business.user_id);
+      }
+
+      if (settings.agent_idle_after_hours) {
+        await handleIdleAgents(settings, settings.agent_idle_after_hours, business.user_id);
+      }
+    } catch (businessError) {
+      console.error(`Error running time rules for business ${settings.business_profile_id}:`, businessError);
+    }
+  }
+}
+
+// Queue the first pass of the time rules; each pass queues the next one
+export function startTimeRuleScheduler() {
+  ensureJobScheduled(TIME_RULES_JOB, new Date())
+    .catch(error => console.error('Error scheduling time rules:', error));
+}
+
+function parseHours(value: unknown) {
+  if (value === null || value === undefined || value === '') return null;
+  return Number.isInteger(value) && (value as number) > 0 ? value as number : undefined;
+}
+
+export function setupTimeRules(app: Express) {
+  // Only one pass is queued at a time, and the next is queued once this one is done. A pass
+  // still running after the job lock timeout is requeued while it runs, so two passes can
+  // overlap then: closes and reopens are conditional updates, but a reminder or alert may repeat.
+  registerJobHandler(TIME_RULES_JOB, async () => {
+    try {
+      await runTimeRules();
+    } finally {
+      await ensureJobScheduled(TIME_RULES_JOB, new Date(Date.now() + SCHEDULER_INTERVAL));
+    }
+  });
+
+  app.get("/api/time-rule-settings", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const { businessProfileId } = req.access!;
+
+      const { data: settings } = await supabase
+        .from('time_rule_settings')
+        .select('*')
+        .eq('business_profile_id', businessProfileId)
+        .maybeSingle();
+
+      res.json(settings ?? { business_profile_id: businessProfileId, ...DEFAULT_SETTINGS });
+    } catch (error) {
+      console.error('Error fetching time rule settings:', error);
+      res.status(500).json({ error: "Failed to fetch time rule settings" });
+    }
+  });
+
+  app.put("/api/time-rule-settings", requireBusinessPermission('settings:manage'), async (req: Request, res) => {
+    try {
+      const autoCloseAfterHours = parseHours(req.body.autoCloseAfterHours);
+      const customerReminderAfterHours = parseHours(req.body.customerReminderAfterHours);
+      const agentIdleAfterHours = parseHours(req.body.agentIdleAfterHours);
+      const { agentIdleAction = 'alert' } = req.body;
+      const customerReminderMessage = typeof req.body.customerReminderMessage === 'string'
+        ? req.body.customerReminderMessage.trim()
+        : '';
+
+      if (autoCloseAfterHours === undefined || customerReminderAfterHours === undefined || agentIdleAfterHours === undefined) {
+        return res.status(400).json({ error: "Hours must be positive whole numbers" });
+      }
+
+      if (!AGENT_IDLE_ACTIONS.includes(agentIdleAction)) {
+        return res.status(400).json({ error: "Invalid idle agent action" });
+      }
+
+      if (customerReminderMessage.length > MAX_MESSAGE_LENGTH) {
+        return res.status(400).json({ error: `Reminders can be at most ${MAX_MESSAGE_LENGTH} characters` });
+      }
+
+      const { data: settings, error } = await supabase
+        .from('time_rule_settings')
+        .upsert({
+          business_profile_id: req.access!.businessProfileId,
+          auto_close_after_hours: autoCloseAfterHours,
+          customer_reminder_after_hours: customerReminderAfterHours,
+          customer_reminder_message: customerReminderMessage || null,
+          agent_idle_after_hours: agentIdleAfterHours,
+          agent_idle_action: agentIdleAction,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'business_profile_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving time rule settings:', error);
+        return res.status(500).json({ error: "Failed to save time rule settings" });
+      }
+
+      res.json(settings);
+    } catch (error) {
+      console.error('Error saving time rule settings:', error);
+      res.status(500).json({ error: "Failed to save time rule settings" });
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { sql } from "drizzle-orm";
+import { db, supabase } from "@db/index";
+
+// Count a new ticket message as unread for its recipient. A single statement, so
+// messages arriving at the same time can't overwrite each other's increment.
+export async function incrementUnread(ticketId: number, userId: number) {
+  const now = new Date().toISOString();
+
+  try {
+    await db.execute(sql`
+      insert into unread_messages (user_id, ticket_id, count, updated_at)
+      values (${userId}, ${ticketId}, 1, ${now})
+      on conflict (user_id, ticket_id)
+      do update set count = unread_messages.count + 1, updated_at = excluded.updated_at
+    `);
+  } catch (error) {
+    console.error('Error updating unread count:', error);
+  }
+}
+
+// Reset a user's counter once they have opened the conversation
+export async function clearUnread(ticketId: number, userId: number) {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('unread_messages')
+    .upsert({
+      user_id: userId,
+      ticket_id: ticketId,
+      count: 0,
+      last_read_at: now,
+      updated_at: now
+    }, { onConflict: 'user_id,ticket_id' });
+
+  if (error) {
+    console.error('Error clearing unread count:', error);
+  }
+}
+
+// Unread message counts for a user, keyed by ticket. Tickets without unread messages are absent.
+export async function getUnreadCounts(userId: number, ticketIds?: number[]) {
+  let query = supabase
+    .from('unread_messages')
+    .select('ticket_id, count')
+    .eq('user_id', userId)
+    .gt('count', 0);
+
+  if (ticketIds) {
+    query = query.in('ticket_id', ticketIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching unread counts:', error);
+  }
+
+  return new Map<number, number>((data || []).map(row => [row.ticket_id, row.count]));
+}